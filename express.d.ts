@@ -6,6 +6,9 @@ declare global {
         interface Request {
             rawBody?: Buffer;
             user?: import('@prisma/client').User;
+            session?: import('@prisma/client').Session;
+            apiKey?: import('@prisma/client').ApiKey;
+            impersonator?: import('@prisma/client').User;
         }
     }
-}
\ No newline at end of file
+}
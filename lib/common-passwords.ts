@@ -0,0 +1,240 @@
+// Lista offline de senhas comuns e vazadas com frequência (inclui variações populares no Brasil).
+// As entradas estão em minúsculas; a verificação normaliza a senha antes de comparar.
+const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+    "123456",
+    "123456789",
+    "12345678",
+    "password",
+    "qwerty123",
+    "qwerty",
+    "12345",
+    "1234567",
+    "111111",
+    "1234567890",
+    "123123",
+    "abc123",
+    "1234",
+    "password1",
+    "iloveyou",
+    "1q2w3e4r",
+    "000000",
+    "qwertyuiop",
+    "123321",
+    "654321",
+    "666666",
+    "121212",
+    "987654321",
+    "7777777",
+    "555555",
+    "112233",
+    "1q2w3e",
+    "123qwe",
+    "a123456",
+    "123abc",
+    "qwe123",
+    "zxcvbnm",
+    "asdfghjkl",
+    "asdfgh",
+    "qazwsx",
+    "1qaz2wsx",
+    "q1w2e3r4",
+    "q1w2e3r4t5",
+    "password123",
+    "passw0rd",
+    "p@ssw0rd",
+    "p@ssword",
+    "admin",
+    "admin123",
+    "administrator",
+    "root",
+    "toor",
+    "letmein",
+    "welcome",
+    "welcome1",
+    "monkey",
+    "dragon",
+    "football",
+    "baseball",
+    "master",
+    "sunshine",
+    "shadow",
+    "princess",
+    "superman",
+    "batman",
+    "trustno1",
+    "hello",
+    "hello123",
+    "freedom",
+    "whatever",
+    "michael",
+    "jennifer",
+    "charlie",
+    "donald",
+    "starwars",
+    "login",
+    "abc12345",
+    "secret",
+    "test",
+    "test123",
+    "guest",
+    "changeme",
+    "default",
+    "access",
+    "11111111",
+    "00000000",
+    "88888888",
+    "99999999",
+    "aaaaaa",
+    "abcdef",
+    "abcdefg",
+    "abcdefgh",
+    "senha",
+    "senha123",
+    "senha1234",
+    "senha12345",
+    "minhasenha",
+    "mudar123",
+    "123mudar",
+    "mudar123!",
+    "alterar123",
+    "trocar123",
+    "brasil",
+    "brasil123",
+    "brazil",
+    "flamengo",
+    "corinthians",
+    "palmeiras",
+    "saopaulo",
+    "santos",
+    "vasco",
+    "gremio",
+    "cruzeiro",
+    "botafogo",
+    "fluminense",
+    "internacional",
+    "atletico",
+    "timao",
+    "mengao",
+    "amor",
+    "amormeu",
+    "teamo",
+    "iloveu",
+    "jesus",
+    "jesus123",
+    "deus",
+    "deusefiel",
+    "deuseamor",
+    "familia",
+    "familia123",
+    "felicidade",
+    "saudade",
+    "gabriel",
+    "gabriela",
+    "lucas",
+    "mateus",
+    "matheus",
+    "pedro",
+    "joao",
+    "maria",
+    "ana",
+    "julia",
+    "juliana",
+    "fernanda",
+    "amanda",
+    "bruna",
+    "beatriz",
+    "camila",
+    "leticia",
+    "larissa",
+    "rafael",
+    "rafaela",
+    "guilherme",
+    "gustavo",
+    "felipe",
+    "bruno",
+    "rodrigo",
+    "thiago",
+    "tiago",
+    "daniel",
+    "daniela",
+    "carlos",
+    "eduardo",
+    "leonardo",
+    "vitoria",
+    "victoria",
+    "isabela",
+    "isabella",
+    "sophia",
+    "alice",
+    "laura",
+    "metamorfosis",
+    "metamorfose",
+    "joias",
+    "joia",
+    "anel",
+    "aliança",
+    "ouro",
+    "prata",
+    "diamante",
+    "qwerty1",
+    "qwerty12",
+    "1qazxsw2",
+    "zaq12wsx",
+    "zaq1zaq1",
+    "147258369",
+    "159753",
+    "159357",
+    "741852963",
+    "963852741",
+    "147258",
+    "123654",
+    "1234qwer",
+    "12qwaszx",
+    "asd123",
+    "asdasd",
+    "asdasd123",
+    "qweasd",
+    "qweasdzxc",
+    "zxc123",
+    "zxcvbn",
+    "pokemon",
+    "naruto",
+    "minecraft",
+    "fortnite",
+    "roblox",
+    "matrix",
+    "internet",
+    "computador",
+    "michelle",
+    "jordan",
+    "jordan23",
+    "harley",
+    "hunter",
+    "ranger",
+    "buster",
+    "soccer",
+    "hockey",
+    "killer",
+    "george",
+    "andrew",
+    "thomas",
+    "jessica",
+    "ashley",
+    "daniel1",
+    "liverpool",
+    "chelsea",
+    "arsenal",
+    "barcelona",
+    "realmadrid",
+    "987654",
+    "123456a",
+    "123456q",
+    "a1b2c3",
+    "a1b2c3d4",
+    "1a2b3c",
+    "102030",
+    "10203040",
+    "010203",
+])
+
+export { COMMON_PASSWORDS }
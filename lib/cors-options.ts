@@ -2,8 +2,9 @@ import { CorsOptions } from "cors";
 
 const corsOptions: CorsOptions = {
     origin: process.env.FRONTEND_URL,
-    methods: ['GET', 'POST', 'PUT', 'DELETE'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+    exposedHeaders: ['X-Impersonated-By', 'X-Impersonation-Expires-At'],
     credentials: true
 }
 
@@ -0,0 +1,18 @@
+// Textos iniciados por estes caracteres são interpretados como fórmula por planilhas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function toCsvField(value: unknown) {
+    if (value === null || value === undefined) {
+        return ""
+    }
+    const text = typeof value === "string"
+        ? FORMULA_PREFIX.test(value) ? `'${value}` : value
+        : value instanceof Date ? value.toISOString() : JSON.stringify(value)
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(header: string[], rows: unknown[][]) {
+    return [header.join(","), ...rows.map((row) => row.map(toCsvField).join(","))].join("\n")
+}
+
+export { toCsv }
@@ -0,0 +1,63 @@
+// CPF (11 dígitos) e CNPJ (14 dígitos): armazenados só com dígitos e formatados na saída
+
+function normalizeDocument(value: string) {
+    return value.replace(/\D/g, "")
+}
+
+function checkDigit(digits: string, weights: number[]) {
+    const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0)
+    const rest = sum % 11
+    return rest < 2 ? 0 : 11 - rest
+}
+
+function isValidCpf(value: string) {
+    const cpf = normalizeDocument(value)
+    if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) {
+        return false
+    }
+
+    const first = checkDigit(cpf, [10, 9, 8, 7, 6, 5, 4, 3, 2])
+    const second = checkDigit(cpf, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2])
+    return first === Number(cpf[9]) && second === Number(cpf[10])
+}
+
+function isValidCnpj(value: string) {
+    const cnpj = normalizeDocument(value)
+    if (cnpj.length !== 14 || /^(\d)\1{13}$/.test(cnpj)) {
+        return false
+    }
+
+    const first = checkDigit(cnpj, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2])
+    const second = checkDigit(cnpj, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2])
+    return first === Number(cnpj[12]) && second === Number(cnpj[13])
+}
+
+function isValidDocument(value: string) {
+    return isValidCpf(value) || isValidCnpj(value)
+}
+
+/**
+ * Formata um documento salvo (apenas dígitos). Valores fora do padrão são devolvidos sem alteração.
+ */
+function formatDocument(value: string | null) {
+    if (!value) {
+        return value
+    }
+    if (value.length === 11) {
+        return value.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, "$1.$2.$3-$4")
+    }
+    if (value.length === 14) {
+        return value.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5")
+    }
+    return value
+}
+
+/**
+ * Retorna os dígitos quando o termo de busca parece um CPF ou CNPJ
+ */
+function documentSearchTerm(search: string) {
+    const digits = normalizeDocument(search)
+    return (digits.length === 11 || digits.length === 14) && /^[\d.\-/\s]+$/.test(search.trim()) ? digits : null
+}
+
+export { normalizeDocument, isValidCpf, isValidCnpj, isValidDocument, formatDocument, documentSearchTerm }
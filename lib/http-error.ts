@@ -0,0 +1,13 @@
+class HttpError extends Error {
+    status: number
+    details?: unknown
+
+    constructor(status: number, message: string, details?: unknown) {
+        super(message)
+        this.name = "HttpError"
+        this.status = status
+        this.details = details
+    }
+}
+
+export { HttpError }
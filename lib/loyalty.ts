@@ -0,0 +1,78 @@
+type LoyaltyTier = {
+    name: string
+    minTotalSpent: number
+    multiplier: number // multiplicador aplicado aos pontos ganhos
+}
+
+type LoyaltySettings = {
+    enabled: boolean
+    pointsPerCurrencyUnit: number // pontos ganhos por unidade monetária do total do pedido
+    pointValue: number // valor em dinheiro de cada ponto no resgate
+    maxRedemptionRate: number // fração máxima do subtotal que pode ser paga com pontos
+    expiryDays: number
+    tiers: LoyaltyTier[]
+}
+
+const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+    enabled: true,
+    pointsPerCurrencyUnit: 1,
+    pointValue: 0.05,
+    maxRedemptionRate: 0.5,
+    expiryDays: 365,
+    tiers: [
+        { name: "Bronze", minTotalSpent: 0, multiplier: 1 },
+        { name: "Prata", minTotalSpent: 2000, multiplier: 1.25 },
+        { name: "Ouro", minTotalSpent: 10000, multiplier: 1.5 },
+    ],
+}
+
+/**
+ * Combina as configurações salvas em `StoreSettings.loyaltySettings` com os valores padrão
+ */
+function resolveLoyaltySettings(stored: unknown): LoyaltySettings {
+    if (!stored || typeof stored !== "object" || Array.isArray(stored)) {
+        return DEFAULT_LOYALTY_SETTINGS
+    }
+    const settings = { ...DEFAULT_LOYALTY_SETTINGS, ...(stored as Partial<LoyaltySettings>) }
+    return { ...settings, tiers: [...settings.tiers].sort((a, b) => a.minTotalSpent - b.minTotalSpent) }
+}
+
+/**
+ * Nível atual (maior faixa atingida) e o próximo nível, se houver
+ */
+function getLoyaltyTier(totalSpent: number, settings: LoyaltySettings) {
+    const reached = settings.tiers.filter((tier) => tier.minTotalSpent <= totalSpent)
+    const current = reached[reached.length - 1] ?? null
+    const next = settings.tiers.find((tier) => tier.minTotalSpent > totalSpent) ?? null
+
+    return {
+        current,
+        next: next && { ...next, remainingSpend: Math.round((next.minTotalSpent - totalSpent) * 100) / 100 },
+    }
+}
+
+function calculateEarnedPoints(orderTotal: number, totalSpent: number, settings: LoyaltySettings) {
+    const multiplier = getLoyaltyTier(totalSpent, settings).current?.multiplier ?? 1
+    return Math.max(Math.floor(orderTotal * settings.pointsPerCurrencyUnit * multiplier), 0)
+}
+
+function calculateRedemptionDiscount(points: number, settings: LoyaltySettings) {
+    return Math.round(points * settings.pointValue * 100) / 100
+}
+
+function getMaxRedeemablePoints(subtotal: number, settings: LoyaltySettings) {
+    if (settings.pointValue <= 0) {
+        return 0
+    }
+    return Math.floor((subtotal * settings.maxRedemptionRate) / settings.pointValue)
+}
+
+export {
+    DEFAULT_LOYALTY_SETTINGS,
+    resolveLoyaltySettings,
+    getLoyaltyTier,
+    calculateEarnedPoints,
+    calculateRedemptionDiscount,
+    getMaxRedeemablePoints,
+}
+export type { LoyaltySettings, LoyaltyTier }
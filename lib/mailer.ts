@@ -0,0 +1,56 @@
+import fs from "fs/promises"
+import path from "path"
+
+type MailMessage = {
+    to: string
+    subject: string
+    text: string
+    html?: string
+}
+
+interface MailTransport {
+    send(message: MailMessage): Promise<void>
+}
+
+const consoleTransport: MailTransport = {
+    async send(message) {
+        console.log(`[mail] Para: ${message.to} | Assunto: ${message.subject}\n${message.text}`)
+    },
+}
+
+function createFileTransport(directory: string): MailTransport {
+    return {
+        async send(message) {
+            await fs.mkdir(directory, { recursive: true })
+            const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")
+            const fileName = `${Date.now()}-${safeRecipient}.json`
+            await fs.writeFile(
+                path.join(directory, fileName),
+                JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+            )
+        },
+    }
+}
+
+function resolveTransport(): MailTransport {
+    if (process.env.MAIL_TRANSPORT === "file") {
+        return createFileTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "outbox"))
+    }
+    return consoleTransport
+}
+
+let transport: MailTransport | null = null
+
+function setMailTransport(customTransport: MailTransport) {
+    transport = customTransport
+}
+
+async function sendMail(message: MailMessage) {
+    if (!transport) {
+        transport = resolveTransport()
+    }
+    await transport.send(message)
+}
+
+export { sendMail, setMailTransport, consoleTransport, createFileTransport }
+export type { MailMessage, MailTransport }
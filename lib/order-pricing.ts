@@ -0,0 +1,128 @@
+type PricingLineInput = {
+    productId: string
+    variantId?: string
+    quantity: number
+    unitPrice: number // preço de catálogo na moeda do pedido
+    discount: number // desconto por unidade
+}
+
+type PricingInput = {
+    currency: string
+    lines: PricingLineInput[]
+    discountTotal: number
+    shippingTotal: number
+    taxRate: number
+}
+
+type PricedLine = PricingLineInput & {
+    total: number
+}
+
+type OrderPricing = {
+    currency: string
+    items: PricedLine[]
+    subtotal: number
+    discountTotal: number
+    shippingTotal: number
+    taxTotal: number
+    total: number
+}
+
+type ExpectedTotals = {
+    subtotal: number
+    discountTotal: number
+    shippingTotal: number
+    taxTotal: number
+    total: number
+    items: { unitPrice: number; discount: number }[]
+}
+
+const TOLERANCE = 0.005
+
+function roundMoney(value: number) {
+    return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+/**
+ * Calcula o pedido a partir dos preços de catálogo: itens, descontos do pedido, frete e imposto sobre o valor descontado
+ */
+function calculateOrderPricing(input: PricingInput): OrderPricing {
+    const items = input.lines.map((line) => ({
+        ...line,
+        unitPrice: roundMoney(line.unitPrice),
+        total: roundMoney((line.unitPrice - line.discount) * line.quantity),
+    }))
+    const subtotal = roundMoney(items.reduce((sum, item) => sum + item.total, 0))
+    const discountTotal = roundMoney(input.discountTotal)
+    const shippingTotal = roundMoney(input.shippingTotal)
+    const taxTotal = roundMoney((subtotal - discountTotal) * input.taxRate)
+
+    return {
+        currency: input.currency,
+        items,
+        subtotal,
+        discountTotal,
+        shippingTotal,
+        taxTotal,
+        total: roundMoney(subtotal - discountTotal + shippingTotal + taxTotal),
+    }
+}
+
+/**
+ * Lista os campos em que os valores esperados pelo cliente divergem do cálculo do servidor
+ */
+function findPricingMismatches(pricing: OrderPricing, expected: ExpectedTotals) {
+    const differs = (a: number, b: number) => Math.abs(a - b) > TOLERANCE
+    const mismatches: string[] = []
+
+    pricing.items.forEach((item, index) => {
+        const expectedItem = expected.items[index]
+        if (differs(item.unitPrice, expectedItem.unitPrice)) {
+            mismatches.push(`items.${index}.unitPrice`)
+        }
+        if (differs(item.discount, expectedItem.discount)) {
+            mismatches.push(`items.${index}.discount`)
+        }
+    })
+
+    const fields = ["subtotal", "discountTotal", "shippingTotal", "taxTotal", "total"] as const
+    fields.forEach((field) => {
+        if (differs(pricing[field], expected[field])) {
+            mismatches.push(field)
+        }
+    })
+
+    return mismatches
+}
+
+/**
+ * Alíquota de imposto configurada em `StoreSettings.taxSettings.rate` (fração entre 0 e 1)
+ */
+function resolveTaxRate(taxSettings: unknown) {
+    if (!taxSettings || typeof taxSettings !== "object" || Array.isArray(taxSettings)) {
+        return 0
+    }
+    const { rate } = taxSettings as { rate?: unknown }
+    return typeof rate === "number" && rate >= 0 && rate <= 1 ? rate : 0
+}
+
+/**
+ * Frete configurado em `StoreSettings.shippingSettings`: valor fixo (`flatRate`), isento a partir de
+ * `freeShippingThreshold` sobre o subtotal já descontado. Sem configuração, o frete é gratuito.
+ */
+function resolveShippingTotal(shippingSettings: unknown, pricing: Pick<OrderPricing, "subtotal" | "discountTotal">) {
+    if (!shippingSettings || typeof shippingSettings !== "object" || Array.isArray(shippingSettings)) {
+        return 0
+    }
+    const { flatRate, freeShippingThreshold } = shippingSettings as { flatRate?: unknown; freeShippingThreshold?: unknown }
+    if (typeof flatRate !== "number" || flatRate <= 0) {
+        return 0
+    }
+    if (typeof freeShippingThreshold === "number" && pricing.subtotal - pricing.discountTotal >= freeShippingThreshold) {
+        return 0
+    }
+    return roundMoney(flatRate)
+}
+
+export { calculateOrderPricing, findPricingMismatches, resolveShippingTotal, resolveTaxRate, roundMoney }
+export type { OrderPricing, PricingLineInput }
@@ -0,0 +1,38 @@
+import type { OrderStatus, PaymentStatus } from "@prisma/client"
+
+// Pedidos entregues ou cancelados são finais; alterações posteriores passam por reembolso
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+    PENDING: ["PROCESSING", "CANCELED"],
+    PROCESSING: ["SHIPPED", "CANCELED"],
+    SHIPPED: ["DELIVERED", "CANCELED"],
+    DELIVERED: [],
+    CANCELED: [],
+}
+
+const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+    PENDING: ["PAID", "FAILED"],
+    FAILED: ["PENDING", "PAID"],
+    PAID: ["REFUNDED"],
+    REFUNDED: [],
+}
+
+// Todo pedido nasce pendente; apenas o pagamento pode já ser registrado como pago em vendas de funcionários
+const INITIAL_ORDER_STATUS: OrderStatus = "PENDING"
+const INITIAL_PAYMENT_STATUSES: readonly PaymentStatus[] = ["PENDING", "PAID"]
+
+function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus) {
+    return ORDER_STATUS_TRANSITIONS[from].includes(to)
+}
+
+function canTransitionPaymentStatus(from: PaymentStatus, to: PaymentStatus) {
+    return PAYMENT_STATUS_TRANSITIONS[from].includes(to)
+}
+
+export {
+    INITIAL_ORDER_STATUS,
+    INITIAL_PAYMENT_STATUSES,
+    ORDER_STATUS_TRANSITIONS,
+    PAYMENT_STATUS_TRANSITIONS,
+    canTransitionOrderStatus,
+    canTransitionPaymentStatus,
+}
@@ -0,0 +1,96 @@
+import { COMMON_PASSWORDS } from "./common-passwords"
+
+type PasswordPolicy = {
+    minLength: number
+    requireUppercase: boolean
+    requireLowercase: boolean
+    requireNumber: boolean
+    requireSymbol: boolean
+    disallowPersonalInfo: boolean
+    disallowCommonPasswords: boolean
+    staffHistorySize: number // quantas senhas anteriores de funcionários não podem ser reutilizadas
+}
+
+type PasswordOwner = {
+    email: string
+    name: string
+}
+
+const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+    minLength: 8,
+    requireUppercase: false,
+    requireLowercase: true,
+    requireNumber: true,
+    requireSymbol: false,
+    disallowPersonalInfo: true,
+    disallowCommonPasswords: true,
+    staffHistorySize: 5,
+}
+
+const MIN_PERSONAL_TOKEN_LENGTH = 3
+
+/**
+ * Combina a política salva em `StoreSettings.passwordPolicy` com os valores padrão
+ */
+function resolvePasswordPolicy(stored: unknown): PasswordPolicy {
+    if (!stored || typeof stored !== "object" || Array.isArray(stored)) {
+        return DEFAULT_PASSWORD_POLICY
+    }
+    return { ...DEFAULT_PASSWORD_POLICY, ...(stored as Partial<PasswordPolicy>) }
+}
+
+function normalize(value: string) {
+    return value
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+}
+
+function isCommonPassword(password: string) {
+    const normalized = normalize(password)
+    // Também pega variações triviais como "Senha123!" ou "flamengo2024"
+    const baseWord = normalized.replace(/[^a-z]+$/, "").replace(/^[^a-z]+/, "")
+    return COMMON_PASSWORDS.has(normalized) || (baseWord.length > 0 && COMMON_PASSWORDS.has(baseWord))
+}
+
+function containsPersonalInfo(password: string, owner: PasswordOwner) {
+    const normalized = normalize(password)
+    const emailLocalPart = normalize(owner.email.split("@")[0])
+    const tokens = [emailLocalPart, ...emailLocalPart.split(/[._\-+]/), ...normalize(owner.name).split(/\s+/)]
+
+    return tokens.some((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH && normalized.includes(token))
+}
+
+/**
+ * Valida a senha contra a política e retorna a lista de problemas encontrados (vazia quando a senha é aceita)
+ */
+function validatePassword(password: string, policy: PasswordPolicy, owner?: PasswordOwner) {
+    const errors: string[] = []
+
+    if (password.length < policy.minLength) {
+        errors.push(`A senha deve ter pelo menos ${policy.minLength} caracteres`)
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+        errors.push("A senha deve conter pelo menos uma letra maiúscula")
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+        errors.push("A senha deve conter pelo menos uma letra minúscula")
+    }
+    if (policy.requireNumber && !/\d/.test(password)) {
+        errors.push("A senha deve conter pelo menos um número")
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+        errors.push("A senha deve conter pelo menos um caractere especial")
+    }
+    if (policy.disallowPersonalInfo && owner && containsPersonalInfo(password, owner)) {
+        errors.push("A senha não pode conter seu nome ou email")
+    }
+    if (policy.disallowCommonPasswords && isCommonPassword(password)) {
+        errors.push("Esta senha é muito comum ou apareceu em vazamentos de dados. Escolha outra")
+    }
+
+    return errors
+}
+
+export { DEFAULT_PASSWORD_POLICY, resolvePasswordPolicy, validatePassword }
+export type { PasswordPolicy, PasswordOwner }
@@ -0,0 +1,71 @@
+import type { User, UserRole } from "@prisma/client"
+
+const PERMISSIONS = [
+    "products:write",
+    "products:delete",
+    "collections:write",
+    "collections:delete",
+    "orders:read",
+    "orders:write",
+    "orders:refund",
+    "orders:pricing",
+    "support:read",
+    "support:write",
+    "settings:read",
+    "settings:write",
+    "users:read",
+    "users:write",
+    "users:permissions",
+    "users:security",
+    "users:impersonate",
+    "users:privacy",
+    "marketing:export",
+    "marketing:segments",
+    "promo-codes:write",
+    "api-keys:manage",
+    "audit:read",
+] as const
+
+type Permission = typeof PERMISSIONS[number]
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+    ADMIN: PERMISSIONS,
+    MANAGER: [
+        "products:write",
+        "collections:write",
+        "orders:read",
+        "orders:write",
+        "orders:refund",
+        "orders:pricing",
+        "support:read",
+        "support:write",
+        "settings:read",
+        "users:read",
+        "users:write",
+        "marketing:export",
+        "marketing:segments",
+        "promo-codes:write",
+    ],
+    SALESPERSON: ["orders:read", "orders:write", "users:read"],
+    INVENTORY: ["products:write", "collections:write"],
+    SUPPORT: ["support:read", "support:write", "orders:read", "users:read", "users:impersonate"],
+    CUSTOMER: [],
+}
+
+function isPermission(value: string): value is Permission {
+    return (PERMISSIONS as readonly string[]).includes(value)
+}
+
+/**
+ * Permissões efetivas: padrão do perfil + concessões individuais - revogações individuais
+ */
+function resolvePermissions(user: Pick<User, "role" | "permissions" | "revokedPermissions">): Permission[] {
+    const granted = new Set<Permission>(ROLE_PERMISSIONS[user.role])
+    user.permissions.filter(isPermission).forEach((permission) => granted.add(permission))
+    user.revokedPermissions.filter(isPermission).forEach((permission) => granted.delete(permission))
+
+    return PERMISSIONS.filter((permission) => granted.has(permission))
+}
+
+export { PERMISSIONS, ROLE_PERMISSIONS, isPermission, resolvePermissions }
+export type { Permission }
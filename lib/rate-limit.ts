@@ -7,4 +7,13 @@ const limiter = rateLimit({
     legacyHeaders: false,
 });
 
-export { limiter }
\ No newline at end of file
+// Limite por IP para a validação pública de cupons, que de outra forma permitiria adivinhar códigos
+const promoCodeValidationLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 20,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: { message: "Muitas tentativas de validação de cupom. Tente novamente mais tarde" },
+});
+
+export { limiter, promoCodeValidationLimiter }
\ No newline at end of file
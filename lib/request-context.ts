@@ -0,0 +1,18 @@
+import { AsyncLocalStorage } from "async_hooks"
+import type { Request } from "express"
+
+type RequestContext = {
+    req: Request
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+function runWithRequest<T>(req: Request, callback: () => T) {
+    return storage.run({ req }, callback)
+}
+
+function getCurrentRequest() {
+    return storage.getStore()?.req
+}
+
+export { runWithRequest, getCurrentRequest }
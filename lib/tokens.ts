@@ -0,0 +1,11 @@
+import crypto from "crypto"
+
+function generateToken(bytes = 32) {
+    return crypto.randomBytes(bytes).toString("hex")
+}
+
+function hashToken(token: string) {
+    return crypto.createHash("sha256").update(token).digest("hex")
+}
+
+export { generateToken, hashToken }
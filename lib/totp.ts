@@ -0,0 +1,107 @@
+import crypto from "crypto"
+
+// Implementação de TOTP (RFC 6238) sobre HOTP (RFC 4226) com HMAC-SHA1, 6 dígitos e passo de 30s.
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+const DIGITS = 6
+const STEP_SECONDS = 30
+
+function base32Encode(buffer: Buffer) {
+    let bits = 0
+    let value = 0
+    let output = ""
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte
+        bits += 8
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+            bits -= 5
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+    }
+
+    return output
+}
+
+function base32Decode(input: string) {
+    const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "")
+    let bits = 0
+    let value = 0
+    const bytes: number[] = []
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char)
+        if (index === -1) {
+            throw new Error("Segredo base32 inválido")
+        }
+        value = (value << 5) | index
+        bits += 5
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255)
+            bits -= 8
+        }
+    }
+
+    return Buffer.from(bytes)
+}
+
+function generateSecret(bytes = 20) {
+    return base32Encode(crypto.randomBytes(bytes))
+}
+
+function hotp(secret: string, counter: number) {
+    const counterBuffer = Buffer.alloc(8)
+    counterBuffer.writeBigUInt64BE(BigInt(counter))
+
+    const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counterBuffer).digest()
+    const offset = hmac[hmac.length - 1] & 0xf
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS
+
+    return binary.toString().padStart(DIGITS, "0")
+}
+
+function currentStep(timestamp = Date.now()) {
+    return Math.floor(timestamp / 1000 / STEP_SECONDS)
+}
+
+function generateTotp(secret: string, timestamp = Date.now()) {
+    return hotp(secret, currentStep(timestamp))
+}
+
+/**
+ * Retorna o passo de tempo em que o código é válido (tolerando `window` passos de desvio) ou null
+ */
+function verifyTotp(secret: string, code: string, window = 1, timestamp = Date.now()) {
+    if (!/^\d{6}$/.test(code)) {
+        return null
+    }
+
+    const step = currentStep(timestamp)
+    for (let offset = -window; offset <= window; offset++) {
+        const candidate = Buffer.from(hotp(secret, step + offset))
+        if (crypto.timingSafeEqual(candidate, Buffer.from(code))) {
+            return step + offset
+        }
+    }
+
+    return null
+}
+
+function buildOtpauthUri({ secret, accountName, issuer }: { secret: string, accountName: string, issuer: string }) {
+    const label = encodeURIComponent(`${issuer}:${accountName}`)
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS),
+    })
+
+    return `otpauth://totp/${label}?${params.toString()}`
+}
+
+export { base32Encode, base32Decode, generateSecret, generateTotp, verifyTotp, buildOtpauthUri }
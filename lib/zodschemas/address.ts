@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+export const BRAZILIAN_STATES = [
+    "AC", "AL", "AP", "AM", "BA", "CE", "DF", "ES", "GO", "MA", "MT", "MS", "MG", "PA",
+    "PB", "PR", "PE", "PI", "RJ", "RN", "RS", "RO", "RR", "SC", "SP", "SE", "TO",
+] as const;
+
+const zipCodeSchema = z
+    .string()
+    .trim()
+    .regex(/^\d{5}-?\d{3}$/, "CEP inválido. Use o formato 00000-000")
+    .transform((cep) => `${cep.replace("-", "").slice(0, 5)}-${cep.replace("-", "").slice(5)}`);
+
+const stateSchema = z
+    .string()
+    .trim()
+    .transform((uf) => uf.toUpperCase())
+    .pipe(z.enum(BRAZILIAN_STATES, { errorMap: () => ({ message: "UF inválida" }) }));
+
+const addressFieldsSchema = z.object({
+    type: z.enum(["BILLING", "SHIPPING", "BOTH"]),
+    street: z.string().trim().min(1, "Rua é obrigatória"),
+    number: z.string().trim().min(1, "Número é obrigatório"),
+    complement: z.string().trim().nullable().optional(),
+    neighborhood: z.string().trim().min(1, "Bairro é obrigatório"),
+    city: z.string().trim().min(1, "Cidade é obrigatória"),
+    state: stateSchema,
+    zipCode: zipCodeSchema,
+    country: z.literal("BR", { errorMap: () => ({ message: "Apenas endereços no Brasil são aceitos" }) }).default("BR"),
+    isDefault: z.boolean().optional(),
+});
+
+export const createAddressSchema = addressFieldsSchema;
+
+export const updateAddressSchema = addressFieldsSchema.omit({ country: true }).partial();
@@ -0,0 +1,14 @@
+import { isIP } from "net";
+import { z } from "zod";
+import { PERMISSIONS } from "../permissions";
+
+export const createApiKeySchema = z.object({
+    name: z.string().min(1, "Nome é obrigatório").max(100),
+    scopes: z.array(z.enum(PERMISSIONS)).min(1, "Informe ao menos um escopo"),
+    allowedIps: z.array(z.string().refine((ip) => isIP(ip) !== 0, "IP inválido")).optional(),
+    expiresAt: z
+        .string()
+        .datetime({ offset: true })
+        .refine((date) => new Date(date) > new Date(), "Data de expiração deve ser futura")
+        .optional(),
+});
@@ -0,0 +1,15 @@
+import { z } from "zod"
+
+const dateStringSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Data inválida")
+
+export const auditLogFilterSchema = z.object({
+    actorId: z.string().optional(),
+    impersonatorId: z.string().optional(),
+    entityType: z.string().optional(),
+    entityId: z.string().optional(),
+    action: z.enum(["CREATE", "UPDATE", "DELETE"]).optional(),
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+})
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const consentScopeSchema = z.object({
+    channel: z.enum(["EMAIL", "SMS", "WHATSAPP"]),
+    purpose: z.enum(["MARKETING", "NEWSLETTER"]),
+});
+
+export const consentingCustomersFilterSchema = consentScopeSchema.extend({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const consentTokenSchema = z.object({
+    token: z.string().min(1, "Token é obrigatório"),
+});
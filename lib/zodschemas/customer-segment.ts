@@ -0,0 +1,44 @@
+import { MaterialType } from "@prisma/client";
+import { z } from "zod";
+
+const rangeSchema = (message: string) =>
+    z
+        .object({
+            min: z.number().nonnegative().optional(),
+            max: z.number().nonnegative().optional(),
+        })
+        .refine((range) => range.min !== undefined || range.max !== undefined, message)
+        .refine((range) => range.min === undefined || range.max === undefined || range.min <= range.max, "Mínimo deve ser menor ou igual ao máximo");
+
+export const customerSegmentRulesSchema = z
+    .object({
+        totalSpent: rangeSchema("Informe o valor mínimo ou máximo gasto").optional(),
+        orderCount: rangeSchema("Informe a quantidade mínima ou máxima de pedidos").optional(),
+        lastPurchase: z
+            .object({
+                withinDays: z.number().int().positive().optional(),
+                olderThanDays: z.number().int().positive().optional(),
+                never: z.literal(true).optional(),
+            })
+            .refine(
+                (rule) => [rule.withinDays, rule.olderThanDays, rule.never].filter((value) => value !== undefined).length === 1,
+                "Informe apenas um critério de última compra",
+            )
+            .optional(),
+        categories: z.array(z.string().min(1)).min(1).optional(),
+        materials: z.array(z.nativeEnum(MaterialType)).min(1).optional(),
+        birthMonths: z.array(z.number().int().min(1).max(12)).min(1).optional(),
+        marketingConsent: z.boolean().optional(),
+    })
+    .strict()
+    .refine((rules) => Object.keys(rules).length > 0, "Informe ao menos uma regra");
+
+export const createCustomerSegmentSchema = z.object({
+    name: z.string().min(1, "Nome é obrigatório").max(100),
+    description: z.string().max(500).optional(),
+    rules: customerSegmentRulesSchema,
+});
+
+export const updateCustomerSegmentSchema = createCustomerSegmentSchema.partial();
+
+export type CustomerSegmentRules = z.infer<typeof customerSegmentRulesSchema>;
@@ -1,61 +1,92 @@
 import { z } from "zod"
 import { OrderStatus, PaymentMethod } from "../../src/interfaces"
 
+const paymentStatusSchema = z.enum(["PENDING", "PAID", "REFUNDED", "FAILED"])
+
+const dateStringSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Data inválida")
 
 const orderItemSchema = z.object({
-    productId: z.string(),
-    quantity: z.number().min(1),
-    unitPrice: z.number().positive(),
+    productId: z.string().min(1, "Produto é obrigatório"),
+    variantId: z.string().optional(),
+    quantity: z.number().int().min(1),
+    unitPrice: z.number().positive(), // preço esperado pelo cliente, conferido com o catálogo
     discount: z.number().min(0),
+    notes: z.string().optional(),
 })
 
-
-const simpleAddressSchema = z.object({
-    street: z.string().min(1, "Rua é obrigatória"),
-    number: z.string().min(1, "Número é obrigatório"),
-    complement: z.string().optional(),
-    neighborhood: z.string().min(1, "Bairro é obrigatório"),
-    city: z.string().min(1, "Cidade é obrigatória"),
-    state: z.string().min(1, "Estado é obrigatório"),
-    zipCode: z.string().min(1, "CEP é obrigatório"),
-    country: z.string().min(1, "País é obrigatório"),
+const orderTotalsSchema = z.object({
+    subtotal: z.number().min(0),
+    discountTotal: z.number().min(0),
+    shippingTotal: z.number().min(0),
+    taxTotal: z.number().min(0),
+    total: z.number().min(0),
 })
 
-
-export const createOrderSchema = z.object({
-    customerId: z.string(),
+// Pedido feito pelo próprio cliente; o cliente é sempre o usuário autenticado
+export const checkoutOrderSchema = orderTotalsSchema.extend({
+    currency: z.string().length(3, "Moeda inválida").optional(),
     items: z.array(orderItemSchema).min(1, "Pelo menos um item é obrigatório"),
-    shippingAddress: simpleAddressSchema,
-    billingAddress: simpleAddressSchema,
+    billingAddressId: z.string().min(1, "Endereço de cobrança é obrigatório"),
+    shippingAddressId: z.string().min(1, "Endereço de entrega é obrigatório"),
     paymentMethod: z.nativeEnum(PaymentMethod),
     notes: z.string().optional(),
-    shippingTotal: z.number().min(0),
-    discountTotal: z.number().min(0),
+    promoCode: z.string().trim().min(1).optional(),
+    redeemPoints: z.number().int().positive().optional(),
+})
+
+// Venda registrada por um funcionário em nome do cliente
+export const createOrderSchema = checkoutOrderSchema.extend({
+    userId: z.string().min(1, "Cliente é obrigatório"),
+    // O status do pedido começa sempre como PENDING e só avança pelas transições
+    paymentStatus: z.enum(["PENDING", "PAID"]).optional(),
 })
 
+export const updateOrderSchema = orderTotalsSchema
+    .extend({
+        items: z.array(orderItemSchema).min(1, "Pelo menos um item é obrigatório"),
+        billingAddressId: z.string().min(1),
+        shippingAddressId: z.string().min(1),
+        paymentMethod: z.nativeEnum(PaymentMethod),
+        paymentStatus: paymentStatusSchema,
+        notes: z.string(),
+    })
+    .partial()
+    .strict()
+    .refine(
+        (data) => {
+            const fields = [data.items, data.subtotal, data.discountTotal, data.shippingTotal, data.taxTotal, data.total]
+            return fields.every((value) => value === undefined) || fields.every((value) => value !== undefined)
+        },
+        { message: "Itens e totais do pedido devem ser informados juntos", path: ["items"] },
+    )
 
-export const updateOrderSchema = z.object({
-    status: z.nativeEnum(OrderStatus).optional(),
-    paymentStatus: z.enum(["PENDING", "PAID", "REFUNDED", "FAILED"]).optional(),
+export const updateOrderStatusSchema = z.object({
+    status: z.nativeEnum(OrderStatus),
     trackingNumber: z.string().optional(),
     shippingCarrier: z.string().optional(),
     estimatedDelivery: z.string().datetime().optional(),
-    notes: z.string().optional(),
+    orderNotes: z.string().optional(), // substitui as observações do pedido
+    note: z.string().max(500).optional(), // registrada apenas na linha do tempo da transição
 })
 
-
-export const orderFilterSchema = z.object({
-    search: z.string().optional(),
-    customerId: z.string().optional(),
-    status: z.nativeEnum(OrderStatus).optional(),
-    paymentMethod: z.nativeEnum(PaymentMethod).optional(),
-    paymentStatus: z.enum(["PENDING", "PAID", "REFUNDED", "FAILED"]).optional(),
-    minTotal: z.number().optional(),
-    maxTotal: z.number().optional(),
-    startDate: z.string().datetime().optional(),
-    endDate: z.string().datetime().optional(),
-    sortBy: z.enum(["orderNumber", "total", "createdAt", "status"]).optional(),
-    sortOrder: z.enum(["asc", "desc"]).optional(),
-    page: z.number().min(1).optional(),
-    limit: z.number().min(1).max(100).optional(),
-})
+export const orderFilterSchema = z
+    .object({
+        search: z.string().optional(),
+        document: z.string().optional(),
+        userId: z.string().optional(),
+        status: z.nativeEnum(OrderStatus).optional(),
+        paymentMethod: z.nativeEnum(PaymentMethod).optional(),
+        paymentStatus: paymentStatusSchema.optional(),
+        minTotal: z.coerce.number().min(0).optional(),
+        maxTotal: z.coerce.number().min(0).optional(),
+        startDate: dateStringSchema.optional(),
+        endDate: dateStringSchema.optional(),
+        sortBy: z.enum(["orderNumber", "total", "createdAt", "status"]).default("createdAt"),
+        sortOrder: z.enum(["asc", "desc"]).default("desc"),
+        page: z.coerce.number().int().min(1).default(1),
+        limit: z.coerce.number().int().min(1).max(100).default(10),
+    })
+    .refine(
+        (filters) => filters.minTotal === undefined || filters.maxTotal === undefined || filters.minTotal <= filters.maxTotal,
+        { message: "Valor mínimo deve ser menor ou igual ao máximo", path: ["minTotal"] },
+    )
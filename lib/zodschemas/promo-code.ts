@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+const promoCodeFieldsSchema = z.object({
+    code: z
+        .string()
+        .trim()
+        .regex(/^[A-Za-z0-9_-]{3,32}$/, "Código deve ter de 3 a 32 letras, números, hífen ou sublinhado"),
+    discountType: z.enum(["PERCENTAGE", "FIXED"]),
+    discountValue: z.number().positive("Valor do desconto deve ser positivo"),
+    validFrom: z.string().datetime({ offset: true }),
+    validUntil: z.string().datetime({ offset: true }),
+    usageLimit: z.number().int().positive().nullable().optional(),
+    minimumPurchase: z.number().positive().nullable().optional(),
+    productIds: z.array(z.string().min(1)).optional(),
+    collectionIds: z.array(z.string().min(1)).optional(),
+});
+
+type PromoCodeFields = Partial<z.infer<typeof promoCodeFieldsSchema>>;
+
+function hasValidPeriod(data: PromoCodeFields) {
+    return !data.validFrom || !data.validUntil || new Date(data.validUntil) > new Date(data.validFrom);
+}
+
+function hasValidPercentage(data: PromoCodeFields) {
+    return data.discountType !== "PERCENTAGE" || data.discountValue === undefined || data.discountValue <= 100;
+}
+
+export const createPromoCodeSchema = promoCodeFieldsSchema
+    .refine(hasValidPeriod, { message: "Fim da validade deve ser posterior ao início", path: ["validUntil"] })
+    .refine(hasValidPercentage, { message: "Desconto percentual não pode passar de 100%", path: ["discountValue"] });
+
+export const updatePromoCodeSchema = promoCodeFieldsSchema
+    .partial()
+    .refine(hasValidPeriod, { message: "Fim da validade deve ser posterior ao início", path: ["validUntil"] })
+    .refine(hasValidPercentage, { message: "Desconto percentual não pode passar de 100%", path: ["discountValue"] });
+
+export const validatePromoCodeSchema = z.object({
+    code: z.string().trim().min(1, "Código é obrigatório"),
+    currency: z.string().length(3, "Moeda inválida").optional(),
+    items: z
+        .array(
+            z.object({
+                productId: z.string().min(1),
+                variantId: z.string().optional(),
+                quantity: z.number().int().min(1),
+            }),
+        )
+        .min(1, "Pelo menos um item é obrigatório"),
+});
@@ -6,4 +6,54 @@ export const storeSettingsSchema = z.object({
     logo: z.string().url().optional(),
     phone: z.string().optional(),
     email: z.string().email("Email inválido").optional(),
+    requireVerifiedEmailForCheckout: z.boolean().optional(),
+    requireVerifiedEmailForReviews: z.boolean().optional(),
+    twoFactorRequiredRoles: z.array(z.enum(["ADMIN", "MANAGER", "SALESPERSON", "INVENTORY", "SUPPORT"])).optional(),
+    passwordPolicy: z
+        .object({
+            minLength: z.number().int().min(6, "Tamanho mínimo não pode ser menor que 6").max(128),
+            requireUppercase: z.boolean(),
+            requireLowercase: z.boolean(),
+            requireNumber: z.boolean(),
+            requireSymbol: z.boolean(),
+            disallowPersonalInfo: z.boolean(),
+            disallowCommonPasswords: z.boolean(),
+            staffHistorySize: z.number().int().min(0).max(24),
+        })
+        .partial()
+        .optional(),
+    taxSettings: z
+        .object({
+            rate: z.number().min(0).max(1, "Alíquota deve ser uma fração entre 0 e 1"),
+        })
+        .partial()
+        .passthrough()
+        .optional(),
+    shippingSettings: z
+        .object({
+            flatRate: z.number().nonnegative(),
+            freeShippingThreshold: z.number().nonnegative().nullable(),
+        })
+        .partial()
+        .passthrough()
+        .optional(),
+    loyaltySettings: z
+        .object({
+            enabled: z.boolean(),
+            pointsPerCurrencyUnit: z.number().nonnegative(),
+            pointValue: z.number().nonnegative(),
+            maxRedemptionRate: z.number().min(0).max(1, "O resgate não pode ultrapassar o subtotal"),
+            expiryDays: z.number().int().positive(),
+            tiers: z
+                .array(
+                    z.object({
+                        name: z.string().min(1, "Nome do nível é obrigatório"),
+                        minTotalSpent: z.number().nonnegative(),
+                        multiplier: z.number().positive(),
+                    }),
+                )
+                .min(1, "Informe ao menos um nível"),
+        })
+        .partial()
+        .optional(),
 })
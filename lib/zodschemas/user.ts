@@ -1,4 +1,10 @@
 import { z } from "zod"
+import { PERMISSIONS } from "../permissions"
+import { isValidDocument } from "../document"
+
+const documentSchema = z.string().refine(isValidDocument, "CPF ou CNPJ inválido")
+
+const staffRoleSchema = z.enum(["ADMIN", "MANAGER", "SALESPERSON", "INVENTORY", "SUPPORT"])
 
 
 export const signinSchema = z.object({
@@ -11,8 +17,10 @@ export const signupSchema = z
     .object({
         name: z.string().min(1, "Nome é obrigatório"),
         email: z.string().email("Email inválido"),
-        password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres"),
-        confirmPassword: z.string().min(6, "Confirmação de senha deve ter pelo menos 6 caracteres"),
+        password: z.string().min(1, "Senha é obrigatória"),
+        confirmPassword: z.string().min(1, "Confirmação de senha é obrigatória"),
+        document: documentSchema.optional(),
+        marketingConsent: z.boolean().optional(),
     })
     .refine((data) => data.password === data.confirmPassword, {
         message: "Senhas não conferem",
@@ -23,8 +31,8 @@ export const signupSchema = z
 export const changePasswordSchema = z
     .object({
         currentPassword: z.string().min(1, "Senha atual é obrigatória"),
-        newPassword: z.string().min(6, "Nova senha deve ter pelo menos 6 caracteres"),
-        confirmNewPassword: z.string().min(6, "Confirmação de nova senha deve ter pelo menos 6 caracteres"),
+        newPassword: z.string().min(1, "Nova senha é obrigatória"),
+        confirmNewPassword: z.string().min(1, "Confirmação de nova senha é obrigatória"),
     })
     .refine((data) => data.newPassword === data.confirmNewPassword, {
         message: "Senhas não conferem",
@@ -38,10 +46,106 @@ export const forgotPasswordSchema = z.object({
 export const resetPasswordSchema = z
     .object({
         token: z.string().min(1, "Token é obrigatório"),
-        newPassword: z.string().min(6, "Nova senha deve ter pelo menos 6 caracteres"),
-        confirmNewPassword: z.string().min(6, "Confirmação de nova senha deve ter pelo menos 6 caracteres"),
+        newPassword: z.string().min(1, "Nova senha é obrigatória"),
+        confirmNewPassword: z.string().min(1, "Confirmação de nova senha é obrigatória"),
     })
     .refine((data) => data.newPassword === data.confirmNewPassword, {
         message: "Senhas não conferem",
         path: ["confirmNewPassword"],
-    })
\ No newline at end of file
+    })
+
+export const updateProfileSchema = z.object({
+    name: z.string().min(1, "Nome é obrigatório").optional(),
+    phone: z.string().min(8, "Telefone inválido").nullable().optional(),
+    document: documentSchema.nullable().optional(),
+    avatar: z.string().url("Avatar deve ser uma URL válida").nullable().optional(),
+    birthDate: z.string().date("Data de nascimento inválida").nullable().optional(),
+    marketingConsent: z.boolean().optional(),
+})
+
+export const verifyEmailSchema = z.object({
+    token: z.string().min(1, "Token é obrigatório"),
+})
+
+const totpCodeSchema = z.string().regex(/^\d{6}$/, "Código deve ter 6 dígitos")
+
+export const twoFactorCodeSchema = z.object({
+    code: totpCodeSchema,
+})
+
+export const twoFactorDisableSchema = z
+    .object({
+        code: totpCodeSchema.optional(),
+        recoveryCode: z.string().min(1).optional(),
+    })
+    .refine((data) => !!data.code || !!data.recoveryCode, {
+        message: "Informe o código do autenticador ou um código de recuperação",
+        path: ["code"],
+    })
+
+export const twoFactorChallengeSchema = z
+    .object({
+        challengeToken: z.string().min(1, "Token do desafio é obrigatório"),
+        code: totpCodeSchema.optional(),
+        recoveryCode: z.string().min(1).optional(),
+    })
+    .refine((data) => !!data.code || !!data.recoveryCode, {
+        message: "Informe o código do autenticador ou um código de recuperação",
+        path: ["code"],
+    })
+
+export const googleCallbackSchema = z.object({
+    code: z.string().min(1, "Código de autorização é obrigatório"),
+    state: z.string().min(1, "State é obrigatório"),
+})
+
+export const updatePermissionsSchema = z.object({
+    grants: z.array(z.enum(PERMISSIONS)).optional(),
+    revocations: z.array(z.enum(PERMISSIONS)).optional(),
+})
+
+export const dataErasureRequestSchema = z.object({
+    reason: z.string().max(1000).optional(),
+})
+
+export const approveDataErasureSchema = z.object({
+    notes: z.string().max(1000).optional(),
+})
+
+export const dataErasureFilterSchema = z.object({
+    status: z.enum(["PENDING", "COMPLETED", "REJECTED"]).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+export const rejectDataErasureSchema = z.object({
+    notes: z.string().min(1, "Informe o motivo da recusa").max(1000),
+})
+
+export const createStaffSchema = z.object({
+    name: z.string().min(1, "Nome é obrigatório"),
+    email: z.string().email("Email inválido"),
+    password: z.string().min(1, "Senha é obrigatória"),
+    role: staffRoleSchema,
+    phone: z.string().min(8, "Telefone inválido").optional(),
+    document: documentSchema.optional(),
+    birthDate: z.string().date("Data de nascimento inválida").optional(),
+    department: z.string().min(1).optional(),
+    startDate: z.string().date("Data de início inválida").optional(),
+})
+
+export const updateUserSchema = z
+    .object({
+        name: z.string().min(1, "Nome é obrigatório"),
+        email: z.string().email("Email inválido"),
+        phone: z.string().min(8, "Telefone inválido"),
+        document: documentSchema,
+        birthDate: z.string().date("Data de nascimento inválida"),
+        role: z.enum(["ADMIN", "MANAGER", "SALESPERSON", "INVENTORY", "SUPPORT", "CUSTOMER"]),
+        department: z.string(),
+        status: z.enum(["ACTIVE", "INACTIVE"]),
+        endDate: z.string().date("Data de término inválida"),
+        avatar: z.string().url("Avatar deve ser uma URL válida"),
+    })
+    .partial()
+    .strict()
@@ -0,0 +1,55 @@
+import type { Request, Response } from "express"
+import { asyncHandler } from "../../helper"
+import addressService from "../services/address"
+import { createAddressSchema, updateAddressSchema } from "../../../lib/zodschemas/address"
+
+export const addressController = {
+    getAddresses: asyncHandler(async (req: Request, res: Response) => {
+        const addresses = await addressService.getAddresses(req.user!.id)
+        res.json(addresses)
+    }),
+
+    getAddressById: asyncHandler(async (req: Request, res: Response) => {
+        const address = await addressService.getAddressById(req.user!.id, req.params.id)
+        if (!address) {
+            res.status(404).json({ message: "Endereço não encontrado" })
+            return
+        }
+        res.json(address)
+    }),
+
+    createAddress: asyncHandler(async (req: Request, res: Response) => {
+        // O schema normaliza CEP e UF; o middleware apenas valida
+        const data = createAddressSchema.parse(req.body)
+        const address = await addressService.createAddress(req.user!.id, data)
+        res.status(201).json(address)
+    }),
+
+    updateAddress: asyncHandler(async (req: Request, res: Response) => {
+        const data = updateAddressSchema.parse(req.body)
+        const address = await addressService.updateAddress(req.user!.id, req.params.id, data)
+        if (!address) {
+            res.status(404).json({ message: "Endereço não encontrado" })
+            return
+        }
+        res.json(address)
+    }),
+
+    setDefaultAddress: asyncHandler(async (req: Request, res: Response) => {
+        const address = await addressService.setDefaultAddress(req.user!.id, req.params.id)
+        if (!address) {
+            res.status(404).json({ message: "Endereço não encontrado" })
+            return
+        }
+        res.json(address)
+    }),
+
+    deleteAddress: asyncHandler(async (req: Request, res: Response) => {
+        const success = await addressService.deleteAddress(req.user!.id, req.params.id)
+        if (!success) {
+            res.status(404).json({ message: "Endereço não encontrado" })
+            return
+        }
+        res.status(204).send()
+    }),
+}
@@ -0,0 +1,27 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { asyncHandler } from "../../helper"
+import apiKeyService from "../services/api-key"
+import { createApiKeySchema } from "../../../lib/zodschemas/api-key"
+
+export const apiKeyController = {
+    listApiKeys: asyncHandler(async (_req: Request, res: Response) => {
+        const apiKeys = await apiKeyService.listApiKeys()
+        res.json(apiKeys)
+    }),
+
+    createApiKey: asyncHandler(async (req: Request, res: Response) => {
+        const data: z.infer<typeof createApiKeySchema> = req.body
+        const apiKey = await apiKeyService.createApiKey(req.user!, data)
+        res.status(201).json(apiKey)
+    }),
+
+    revokeApiKey: asyncHandler(async (req: Request, res: Response) => {
+        const revoked = await apiKeyService.revokeApiKey(req.params.id)
+        if (!revoked) {
+            res.status(404).json({ error: "Chave de API não encontrada" })
+            return
+        }
+        res.status(204).send()
+    }),
+}
@@ -0,0 +1,32 @@
+import type { Request, Response } from "express"
+import { asyncHandler } from "../../helper"
+import auditService from "../services/audit"
+import { auditLogFilterSchema } from "../../../lib/zodschemas/audit"
+
+function getFilters(req: Request) {
+    return auditLogFilterSchema.safeParse(req.query)
+}
+
+export const auditController = {
+    getAuditLogs: asyncHandler(async (req: Request, res: Response) => {
+        const filters = getFilters(req)
+        if (!filters.success) {
+            res.status(400).json({ message: "Filtros inválidos", errors: filters.error.flatten().fieldErrors })
+            return
+        }
+        const result = await auditService.getAuditLogs(filters.data)
+        res.json(result)
+    }),
+
+    exportAuditLogs: asyncHandler(async (req: Request, res: Response) => {
+        const filters = getFilters(req)
+        if (!filters.success) {
+            res.status(400).json({ message: "Filtros inválidos", errors: filters.error.flatten().fieldErrors })
+            return
+        }
+        const csv = await auditService.exportAuditLogs(filters.data)
+        res.setHeader("Content-Type", "text/csv; charset=utf-8")
+        res.setHeader("Content-Disposition", `attachment; filename="audit-logs-${new Date().toISOString().slice(0, 10)}.csv"`)
+        res.send(csv)
+    }),
+}
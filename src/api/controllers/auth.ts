@@ -1,144 +1,298 @@
 import { User } from '@prisma/client';
+import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 
-import crypto from 'crypto';
-
-import { v4 as uuidv4 } from 'uuid';
-import { asyncHandler } from '../../helper';
+import { z } from 'zod';
+import { asyncHandler, getClientInfo, getCookie } from '../../helper';
 import { prisma } from '../../../prisma/prisma';
-import { signupSchema } from '../../../lib/zodschemas/user';
+import { forgotPasswordSchema, googleCallbackSchema, resetPasswordSchema, signinSchema, signupSchema, twoFactorChallengeSchema, verifyEmailSchema } from '../../../lib/zodschemas/user';
+import passwordResetService from '../services/password-reset';
+import emailVerificationService from '../services/email-verification';
+import sessionService from '../services/session';
+import loginProtectionService from '../services/login-protection';
+import twoFactorService from '../services/two-factor';
+import googleOAuthService, { GOOGLE_STATE_COOKIE, getStateCookieOptions } from '../services/google-oauth';
+import apiKeyService from '../services/api-key';
+import consentService from '../services/consent';
+import passwordPolicyService from '../services/password-policy';
+import { assertDocumentAvailable } from '../services/user';
+import { normalizeDocument } from '../../../lib/document';
+
+const API_KEY_HEADER = 'x-api-key';
+
+function setImpersonationHeaders(res: Response, impersonator: User, expiresAt: Date) {
+    res.setHeader('X-Impersonated-By', impersonator.id);
+    res.setHeader('X-Impersonation-Expires-At', expiresAt.toISOString());
+}
+
+function getBearerToken(authorization?: string) {
+    if (!authorization) {
+        return null;
+    }
+    const [scheme, token] = authorization.split(' ');
+    if (scheme !== 'Bearer' || !token) {
+        return null;
+    }
+    return token;
+}
+
+function toAuthResponse(user: User, accessToken: string) {
+    return {
+        accessToken,
+        email: user.email,
+        user: {
+            id: user.id,
+            name: user.name,
+            emailVerified: user.emailVerified,
+            avatar: user.avatar,
+            role: user.role
+        },
+    };
+}
+
+// Os contadores de bloqueio só são zerados depois de todos os fatores de autenticação
+async function completeSignin(user: User, req: Request, res: Response) {
+    const client = getClientInfo(req);
+    await loginProtectionService.recordSuccessfulLogin(user.email, client.ip, user);
+    const { token: accessToken } = await sessionService.createSession(user.id, client);
+    const updatedUser = await prisma.user.update({
+        where: { id: user.id },
+        data: { lastLogin: new Date() }
+    });
+    const twoFactorSetupRequired = !user.twoFactorEnabled && await twoFactorService.isTwoFactorRequired(user.role);
+
+    res.json({
+        ...toAuthResponse(updatedUser, accessToken),
+        ...(twoFactorSetupRequired ? { twoFactorSetupRequired } : {}),
+    });
+}
+
+async function startSignin(user: User, req: Request, res: Response) {
+    if (user.twoFactorEnabled) {
+        const challengeToken = await twoFactorService.createChallenge(user.id);
+        res.json({ twoFactorRequired: true, challengeToken });
+        return;
+    }
+
+    await completeSignin(user, req, res);
+}
 
 export const authController = {
     signup: asyncHandler(async (req, res) => {
-        const user: Partial<User> = req.body;
-
-        const parseduser = await signupSchema.safeParseAsync(user)
+        const { email, name, password, document, marketingConsent }: z.infer<typeof signupSchema> = req.body;
+        const sanitizedEmail = email.toLowerCase();
+        const sanitizedName = name.toLowerCase()
 
-        if (parseduser.error) {
-            res.status(400).json({ message: 'Campos obrigatórios não preenchidos' });
+        const existingUser = await prisma.user.findUnique({
+            where: { email: sanitizedEmail }
+        });
+        if (existingUser) {
+            res.status(409).json({ message: 'Email já cadastrado' });
             return;
         }
+        const sanitizedDocument = document ? normalizeDocument(document) : undefined;
+        if (sanitizedDocument) {
+            await assertDocumentAvailable(sanitizedDocument);
+        }
 
-        const { email, name, password } = parseduser.data
-        const sanitizedEmail = email.toLowerCase();
-        const sanitizedName = name.toLowerCase()
+        await passwordPolicyService.assertPasswordAllowed(password, { email: sanitizedEmail, name: sanitizedName });
         const hashedPassword = await bcrypt.hash(password, 12);
-        const accessToken = crypto
-            .createHash('sha256')
-            .update(uuidv4())
-            .digest('hex');
 
         const createduser = await prisma.user.create({
             data: {
                 name: sanitizedName,
                 email: sanitizedEmail,
                 password: hashedPassword,
-                accessToken
+                document: sanitizedDocument
             }
         });
-        res.json({
-            accessToken: accessToken,
-            email: sanitizedEmail,
-            user: {
-                id: createduser.id,
-                name: createduser.name,
-                emailVerified: createduser.emailVerified,
-                avatar: createduser.avatar,
-                role:createduser.role
-            },
-        });
+        const { token: accessToken } = await sessionService.createSession(createduser.id, getClientInfo(req));
+        try {
+            await emailVerificationService.sendVerificationEmail(createduser);
+        } catch (error) {
+            console.error('Erro ao enviar email de verificação:', error);
+        }
+        if (marketingConsent) {
+            try {
+                await consentService.requestConsent(createduser, { channel: 'EMAIL', purpose: 'MARKETING' }, 'signup', getClientInfo(req));
+            } catch (error) {
+                console.error('Erro ao solicitar consentimento de marketing:', error);
+            }
+        }
+
+        res.status(201).json(toAuthResponse(createduser, accessToken));
     }),
     signin: asyncHandler(
         async (req, res) => {
             const {
                 email, password
-            } = req.body;
+            }: z.infer<typeof signinSchema> = req.body;
             const sanitizedEmail: string = email.toLowerCase();
-            const user = await prisma.user.findFirst({
+            const client = getClientInfo(req);
+            const user = await prisma.user.findUnique({
                 where: { email: sanitizedEmail }
             });
 
-            if (!user) {
-                res.status(401).json({ message: 'Email inválido' });
+            await loginProtectionService.assertLoginAllowed(sanitizedEmail, client.ip, user);
+
+            const validPassword = user ? await bcrypt.compare(password, user.password) : false;
+            if (!user || !validPassword) {
+                await loginProtectionService.recordFailedLogin(sanitizedEmail, client.ip, user);
+                res.status(401).json({ message: 'Credenciais inválidas' });
                 return;
             }
 
-            const validPassword = await bcrypt.compare(password, user.password);
-            if (!validPassword) {
-                res.status(401).json({ message: 'Invalid credentials' });
+            if (user.status !== 'ACTIVE') {
+                res.status(403).json({ message: 'Conta desativada' });
                 return;
             }
 
-            res.json({
-                email: sanitizedEmail,
-                accessToken: user.accessToken,
-                user: {
-                    id: user.id,
-                    name: user.name,
-                    emailVerified: user.emailVerified,
-                    avatar: user.avatar
-                },
-            });
+            await startSignin(user, req, res);
         }
     ),
+    googleAuthorize: asyncHandler(async (_req, res) => {
+        const { url, nonce } = googleOAuthService.getAuthorizationUrl();
+        res.cookie(GOOGLE_STATE_COOKIE, nonce, getStateCookieOptions());
+        res.redirect(url);
+    }),
+    googleCallback: asyncHandler(async (req, res) => {
+        const { code, state }: z.infer<typeof googleCallbackSchema> = req.body;
+        // O nonce vale para um único retorno do Google
+        const browserNonce = getCookie(req, GOOGLE_STATE_COOKIE);
+        res.clearCookie(GOOGLE_STATE_COOKIE, { path: '/' });
+        const user = await googleOAuthService.signInWithGoogle(code, state, browserNonce, getClientInfo(req).ip);
+
+        if (user.status !== 'ACTIVE') {
+            res.status(403).json({ message: 'Conta desativada' });
+            return;
+        }
+
+        await startSignin(user, req, res);
+    }),
+    verifyTwoFactor: asyncHandler(async (req, res) => {
+        const { challengeToken, code, recoveryCode }: z.infer<typeof twoFactorChallengeSchema> = req.body;
+        const user = await twoFactorService.completeChallenge(challengeToken, { code, recoveryCode }, getClientInfo(req).ip);
+
+        if (user.status !== 'ACTIVE') {
+            res.status(403).json({ message: 'Conta desativada' });
+            return;
+        }
+
+        await completeSignin(user, req, res);
+    }),
     session: asyncHandler(async (req, res) => {
-        const { authorization } = req.headers;
-        if (!authorization) {
-            res.status(401).json({ message: 'Unauthorized' });
+        const token = getBearerToken(req.headers.authorization);
+        if (!token) {
+            res.status(401).json({ message: 'Não autorizado' });
             return;
         }
 
-        const token = authorization.split(' ')[1];
-        const user = await prisma.user.findFirst({
-            where: {
-                accessToken: token
-            }
-        });
+        const client = getClientInfo(req);
+        const session = await sessionService.authenticateSession(token, client);
 
-        if (!user) {
-            res.status(401).json({ message: 'Unauthorized' });
+        if (!session) {
+            res.status(401).json({ message: 'Não autorizado' });
             return;
         }
 
-        const newAccessToken = crypto
-            .createHash('sha256')
-            .update(uuidv4())
-            .digest('hex');
+        if (session.impersonator) {
+            // Sessões de personificação expiram no prazo original e não são renovadas
+            setImpersonationHeaders(res, session.impersonator, session.expiresAt);
+            res.json({
+                ...toAuthResponse(session.user, token),
+                impersonatedBy: { id: session.impersonator.id, name: session.impersonator.name },
+                expiresAt: session.expiresAt,
+            });
+            return;
+        }
 
-        await prisma.user.update({
-            where: { id: user.id },
-            data: { accessToken: newAccessToken }
-        });
-        res.json({
-            accessToken: newAccessToken,
-            email: user.email,
-            user: {
-                id: user.id,
-                name: user.name,
-                emailVerified: user.emailVerified,
-                avatar: user.avatar
-            }
-        });
+        const { token: newAccessToken } = await sessionService.rotateSession(session.id, client);
+        res.json(toAuthResponse(session.user, newAccessToken));
     }),
-    secure: asyncHandler(async (req, res, next) => {
-        const { authorization } = req.headers;
-        if (!authorization) {
-            res.status(401).json({ message: 'Unauthorized' });
+    signout: asyncHandler(async (req, res) => {
+        const { user, session } = req;
+        if (!user || !session) {
+            res.status(401).json({ message: 'Não autorizado' });
             return;
         }
 
-        const token = authorization.split(' ')[1];
-        const user = await prisma.user.findFirst({
-            where: {
-                accessToken: token
+        await sessionService.revokeSession(user.id, session.id);
+        res.status(204).send();
+    }),
+    passwordPolicy: asyncHandler(async (_req, res) => {
+        const policy = await passwordPolicyService.getPasswordPolicy();
+        res.json(policy);
+    }),
+    forgotPassword: asyncHandler(async (req, res) => {
+        const { email }: z.infer<typeof forgotPasswordSchema> = req.body;
+        await passwordResetService.requestPasswordReset(email);
+        res.json({ message: 'Se o email estiver cadastrado, você receberá as instruções para redefinir a senha' });
+    }),
+    resetPassword: asyncHandler(async (req, res) => {
+        const { token, newPassword }: z.infer<typeof resetPasswordSchema> = req.body;
+        await passwordResetService.resetPassword(token, newPassword);
+        res.json({ message: 'Senha redefinida com sucesso' });
+    }),
+    verifyEmail: asyncHandler(async (req, res) => {
+        const { token }: z.infer<typeof verifyEmailSchema> = req.body;
+        await emailVerificationService.confirmEmail(token);
+        res.json({ message: 'Email verificado com sucesso' });
+    }),
+    resendVerification: asyncHandler(async (req, res) => {
+        const result = await emailVerificationService.resendVerificationEmail(req.user!.id);
+        if (!result) {
+            res.status(404).json({ message: 'Usuário não encontrado' });
+            return;
+        }
+        res.json({ message: 'Email de verificação enviado' });
+    }),
+    secure: asyncHandler(async (req, res, next) => {
+        const key = req.get(API_KEY_HEADER);
+        if (key) {
+            const apiKey = await apiKeyService.authenticateApiKey(key, getClientInfo(req).ip);
+            if (!apiKey) {
+                res.status(401).json({ message: 'Chave de API inválida' });
+                return;
             }
+            const { createdBy, ...apiKeyData } = apiKey;
+            req.user = createdBy;
+            req.apiKey = apiKeyData;
+            next();
+            return;
         }
-        );
-        if (!user) {
-            res.status(401).json({ message: 'Unauthorized' });
+
+        const token = getBearerToken(req.headers.authorization);
+        if (!token) {
+            res.status(401).json({ message: 'Não autorizado' });
             return;
         }
+
+        const session = await sessionService.authenticateSession(token, getClientInfo(req));
+        if (!session) {
+            res.status(401).json({ message: 'Não autorizado' });
+            return;
+        }
+        const { user, impersonator, ...sessionData } = session;
         req.user = user
+        req.session = sessionData
+        if (impersonator) {
+            req.impersonator = impersonator;
+            setImpersonationHeaders(res, impersonator, session.expiresAt);
+        }
+        next();
+    }),
+    requireSession: asyncHandler(async (req, res, next) => {
+        if (!req.session) {
+            res.status(403).json({ message: 'Disponível apenas para sessões de usuário' });
+            return;
+        }
+        next();
+    }),
+    forbidImpersonation: asyncHandler(async (req, res, next) => {
+        if (req.impersonator) {
+            res.status(403).json({ message: 'Ação não permitida durante a personificação' });
+            return;
+        }
         next();
     })
-};
\ No newline at end of file
+};
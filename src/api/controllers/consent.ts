@@ -0,0 +1,55 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { asyncHandler, getClientInfo } from "../../helper"
+import consentService from "../services/consent"
+import { consentingCustomersFilterSchema, consentScopeSchema, consentTokenSchema } from "../../../lib/zodschemas/consent"
+
+function getScope(req: Request) {
+    return consentScopeSchema.safeParse({
+        channel: req.query.channel ?? "EMAIL",
+        purpose: req.query.purpose ?? "MARKETING",
+    })
+}
+
+export const consentController = {
+    confirmConsent: asyncHandler(async (req: Request, res: Response) => {
+        const { token }: z.infer<typeof consentTokenSchema> = req.body
+        const consent = await consentService.confirmConsent(token, getClientInfo(req))
+        res.json({ channel: consent.channel, purpose: consent.purpose, status: consent.status })
+    }),
+
+    unsubscribe: asyncHandler(async (req: Request, res: Response) => {
+        const { token }: z.infer<typeof consentTokenSchema> = req.body
+        const scope = await consentService.unsubscribe(token, getClientInfo(req))
+        res.json({ ...scope, status: "WITHDRAWN" })
+    }),
+
+    getConsentingCustomers: asyncHandler(async (req: Request, res: Response) => {
+        const filters = consentingCustomersFilterSchema.safeParse({
+            ...req.query,
+            channel: req.query.channel ?? "EMAIL",
+            purpose: req.query.purpose ?? "MARKETING",
+        })
+        if (!filters.success) {
+            res.status(400).json({ message: "Filtros inválidos", errors: filters.error.flatten().fieldErrors })
+            return
+        }
+        const result = await consentService.getConsentingCustomers(filters.data)
+        res.json(result)
+    }),
+
+    exportConsentingCustomers: asyncHandler(async (req: Request, res: Response) => {
+        const scope = getScope(req)
+        if (!scope.success) {
+            res.status(400).json({ message: "Canal ou finalidade inválidos", errors: scope.error.flatten().fieldErrors })
+            return
+        }
+        const csv = await consentService.exportConsentingCustomers(scope.data)
+        res.setHeader("Content-Type", "text/csv; charset=utf-8")
+        res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="consentimentos-${scope.data.channel.toLowerCase()}-${scope.data.purpose.toLowerCase()}.csv"`,
+        )
+        res.send(csv)
+    }),
+}
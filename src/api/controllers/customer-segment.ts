@@ -0,0 +1,61 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { asyncHandler } from "../../helper"
+import customerSegmentService from "../services/customer-segment"
+import {
+    createCustomerSegmentSchema,
+    customerSegmentRulesSchema,
+    updateCustomerSegmentSchema,
+} from "../../../lib/zodschemas/customer-segment"
+
+const MAX_PAGE_SIZE = 100
+
+export const customerSegmentController = {
+    listSegments: asyncHandler(async (_req: Request, res: Response) => {
+        const segments = await customerSegmentService.listSegments()
+        res.json(segments)
+    }),
+
+    getSegment: asyncHandler(async (req: Request, res: Response) => {
+        const segment = await customerSegmentService.getSegment(req.params.id)
+        res.json(segment)
+    }),
+
+    createSegment: asyncHandler(async (req: Request, res: Response) => {
+        const data: z.infer<typeof createCustomerSegmentSchema> = req.body
+        const segment = await customerSegmentService.createSegment(req.user!, data)
+        res.status(201).json(segment)
+    }),
+
+    updateSegment: asyncHandler(async (req: Request, res: Response) => {
+        const data: z.infer<typeof updateCustomerSegmentSchema> = req.body
+        const segment = await customerSegmentService.updateSegment(req.params.id, data)
+        res.json(segment)
+    }),
+
+    deleteSegment: asyncHandler(async (req: Request, res: Response) => {
+        await customerSegmentService.deleteSegment(req.params.id)
+        res.status(204).send()
+    }),
+
+    previewSegment: asyncHandler(async (req: Request, res: Response) => {
+        const rules: z.infer<typeof customerSegmentRulesSchema> = req.body
+        const preview = await customerSegmentService.previewSegment(rules)
+        res.json(preview)
+    }),
+
+    getSegmentMembers: asyncHandler(async (req: Request, res: Response) => {
+        const result = await customerSegmentService.getSegmentMembers(req.params.id, {
+            page: Math.max(Number(req.query.page) || 1, 1),
+            limit: Math.min(Math.max(Number(req.query.limit) || 50, 1), MAX_PAGE_SIZE),
+        })
+        res.json(result)
+    }),
+
+    exportSegmentMembers: asyncHandler(async (req: Request, res: Response) => {
+        const csv = await customerSegmentService.exportSegmentMembers(req.params.id)
+        res.setHeader("Content-Type", "text/csv; charset=utf-8")
+        res.setHeader("Content-Disposition", `attachment; filename="segmento-${req.params.id}.csv"`)
+        res.send(csv)
+    }),
+}
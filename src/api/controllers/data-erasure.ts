@@ -0,0 +1,37 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { asyncHandler } from "../../helper"
+import dataPrivacyService from "../services/data-privacy"
+import { approveDataErasureSchema, dataErasureFilterSchema, rejectDataErasureSchema } from "../../../lib/zodschemas/user"
+
+export const dataErasureController = {
+    getErasureRequests: asyncHandler(async (req: Request, res: Response) => {
+        const filters = dataErasureFilterSchema.safeParse(req.query)
+        if (!filters.success) {
+            res.status(400).json({ message: "Filtros inválidos", errors: filters.error.flatten().fieldErrors })
+            return
+        }
+        const result = await dataPrivacyService.getErasureRequests(filters.data)
+        res.json(result)
+    }),
+
+    approveErasureRequest: asyncHandler(async (req: Request, res: Response) => {
+        const { notes }: z.infer<typeof approveDataErasureSchema> = req.body
+        const request = await dataPrivacyService.approveErasureRequest(req.params.id, req.user!, notes)
+        if (!request) {
+            res.status(404).json({ error: "Solicitação não encontrada" })
+            return
+        }
+        res.json(request)
+    }),
+
+    rejectErasureRequest: asyncHandler(async (req: Request, res: Response) => {
+        const { notes }: z.infer<typeof rejectDataErasureSchema> = req.body
+        const request = await dataPrivacyService.rejectErasureRequest(req.params.id, req.user!, notes)
+        if (!request) {
+            res.status(404).json({ error: "Solicitação não encontrada" })
+            return
+        }
+        res.json(request)
+    }),
+}
@@ -0,0 +1,168 @@
+import { z } from "zod"
+import { asyncHandler, getClientInfo, getCookie } from "../../helper"
+import userService from "../services/user"
+import sessionService from "../services/session"
+import twoFactorService from "../services/two-factor"
+import dataPrivacyService from "../services/data-privacy"
+import consentService from "../services/consent"
+import loyaltyService from "../services/loyalty"
+import googleOAuthService, { GOOGLE_STATE_COOKIE, getStateCookieOptions } from "../services/google-oauth"
+import { consentScopeSchema } from "../../../lib/zodschemas/consent"
+import { resolvePermissions } from "../../../lib/permissions"
+import {
+    changePasswordSchema,
+    dataErasureRequestSchema,
+    googleCallbackSchema,
+    twoFactorCodeSchema,
+    twoFactorDisableSchema,
+    updateProfileSchema,
+} from "../../../lib/zodschemas/user"
+
+export const meController = {
+    getProfile: asyncHandler(async (req, res) => {
+        const profile = await userService.getProfile(req.user!.id)
+        if (!profile) {
+            res.status(404).json({ message: "Usuário não encontrado" })
+            return
+        }
+        res.json(profile)
+    }),
+
+    updateProfile: asyncHandler(async (req, res) => {
+        const data: z.infer<typeof updateProfileSchema> = req.body
+        if (req.impersonator && data.marketingConsent !== undefined) {
+            res.status(403).json({ message: "Consentimento só pode ser alterado pelo próprio titular" })
+            return
+        }
+        const profile = await userService.updateProfile(req.user!.id, data, getClientInfo(req))
+        res.json(profile)
+    }),
+
+    changePassword: asyncHandler(async (req, res) => {
+        const { currentPassword, newPassword }: z.infer<typeof changePasswordSchema> = req.body
+        const result = await userService.changePassword(
+            req.user!.id,
+            currentPassword,
+            newPassword,
+            req.session!.id,
+            getClientInfo(req),
+        )
+        if (!result) {
+            res.status(404).json({ message: "Usuário não encontrado" })
+            return
+        }
+        res.json(result)
+    }),
+
+    authorizeGoogleLink: asyncHandler(async (req, res) => {
+        const { url, nonce } = googleOAuthService.getAuthorizationUrl(req.user!.id)
+        res.cookie(GOOGLE_STATE_COOKIE, nonce, getStateCookieOptions())
+        res.json({ url })
+    }),
+
+    linkGoogleAccount: asyncHandler(async (req, res) => {
+        const { code, state }: z.infer<typeof googleCallbackSchema> = req.body
+        const browserNonce = getCookie(req, GOOGLE_STATE_COOKIE)
+        res.clearCookie(GOOGLE_STATE_COOKIE, { path: "/" })
+        await googleOAuthService.linkGoogleAccount(req.user!.id, code, state, browserNonce)
+        res.json({ success: true })
+    }),
+
+    getPermissions: asyncHandler(async (req, res) => {
+        res.json({ role: req.user!.role, permissions: resolvePermissions(req.user!) })
+    }),
+
+    getSessions: asyncHandler(async (req, res) => {
+        const sessions = await sessionService.listSessions(req.user!.id, req.session?.id)
+        res.json(sessions)
+    }),
+
+    revokeSession: asyncHandler(async (req, res) => {
+        const success = await sessionService.revokeSession(req.user!.id, req.params.id)
+        if (!success) {
+            res.status(404).json({ message: "Sessão não encontrada" })
+            return
+        }
+        res.json({ success: true })
+    }),
+
+    revokeOtherSessions: asyncHandler(async (req, res) => {
+        const revoked = await sessionService.revokeAllSessions(req.user!.id, req.session?.id)
+        res.json({ revoked })
+    }),
+
+    setupTwoFactor: asyncHandler(async (req, res) => {
+        const setup = await twoFactorService.beginSetup(req.user!)
+        res.json(setup)
+    }),
+
+    enableTwoFactor: asyncHandler(async (req, res) => {
+        const { code }: z.infer<typeof twoFactorCodeSchema> = req.body
+        const result = await twoFactorService.enable(req.user!, code)
+        res.json(result)
+    }),
+
+    disableTwoFactor: asyncHandler(async (req, res) => {
+        const { code, recoveryCode }: z.infer<typeof twoFactorDisableSchema> = req.body
+        await twoFactorService.disable(req.user!, { code, recoveryCode })
+        res.json({ success: true })
+    }),
+
+    regenerateRecoveryCodes: asyncHandler(async (req, res) => {
+        const { code }: z.infer<typeof twoFactorCodeSchema> = req.body
+        const result = await twoFactorService.regenerateRecoveryCodes(req.user!, code)
+        res.json(result)
+    }),
+
+    exportData: asyncHandler(async (req, res) => {
+        const data = await dataPrivacyService.exportUserData(req.user!.id)
+        if (!data) {
+            res.status(404).json({ message: "Usuário não encontrado" })
+            return
+        }
+        res.setHeader("Content-Disposition", `attachment; filename="meus-dados-${req.user!.id}.json"`)
+        res.json(data)
+    }),
+
+    requestDataErasure: asyncHandler(async (req, res) => {
+        const { reason }: z.infer<typeof dataErasureRequestSchema> = req.body
+        const request = await dataPrivacyService.requestErasure(req.user!, reason)
+        res.status(201).json(request)
+    }),
+
+    getDataErasureRequests: asyncHandler(async (req, res) => {
+        const requests = await dataPrivacyService.getUserErasureRequests(req.user!.id)
+        res.json(requests)
+    }),
+
+    getLoyaltyStatement: asyncHandler(async (req, res) => {
+        const statement = await loyaltyService.getStatement(req.user!.id, {
+            page: Math.max(Number(req.query.page) || 1, 1),
+            limit: Math.min(Math.max(Number(req.query.limit) || 20, 1), 100),
+        })
+        if (!statement) {
+            res.status(404).json({ message: "Usuário não encontrado" })
+            return
+        }
+        res.json(statement)
+    }),
+
+    getConsents: asyncHandler(async (req, res) => {
+        const consents = await consentService.getUserConsents(req.user!.id)
+        res.json(consents)
+    }),
+
+    requestConsent: asyncHandler(async (req, res) => {
+        const scope: z.infer<typeof consentScopeSchema> = req.body
+        const consent = await consentService.requestConsent(req.user!, scope, "profile", getClientInfo(req))
+        res.status(202).json({ channel: consent.channel, purpose: consent.purpose, status: consent.status })
+    }),
+
+    withdrawConsent: asyncHandler(async (req, res) => {
+        const scope: z.infer<typeof consentScopeSchema> = req.body
+        await consentService.withdrawConsent(req.user!.id, scope, "profile", getClientInfo(req))
+        res.json({ ...scope, status: "WITHDRAWN" })
+    }),
+}
+
+export default meController
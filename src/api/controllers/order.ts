@@ -1,29 +1,65 @@
 import type { Request, Response } from "express"
-
-
 import { asyncHandler } from "../../helper"
 import orderService from "../services/order"
+import orderEventService from "../services/order-event"
+import { getRequestPermissions } from "../middlewares/perimission"
+import {
+    checkoutOrderSchema,
+    createOrderSchema,
+    orderFilterSchema,
+    updateOrderSchema,
+    updateOrderStatusSchema,
+} from "../../../lib/zodschemas/order"
 
 
 
 export const orderController = {
 
     getOrders: asyncHandler(async (req: Request, res: Response) => {
-        const filters = {
-            search: req.query.search as string,
-            status: req.query.status as string,
-            startDate: req.query.startDate as string,
-            endDate: req.query.endDate as string,
-            sortBy: (req.query.sortBy as string) || "createdAt",
-            sortOrder: (req.query.sortOrder as "asc" | "desc") || "desc",
-            page: req.query.page ? Number(req.query.page) : 1,
-            limit: req.query.limit ? Number(req.query.limit) : 10,
+        const filters = orderFilterSchema.safeParse(req.query)
+        if (!filters.success) {
+            res.status(400).json({ message: "Filtros inválidos", errors: filters.error.flatten().fieldErrors })
+            return
+        }
+
+        const result = await orderService.getOrders(filters.data)
+        res.json(result)
+    }),
+
+    getMyOrders: asyncHandler(async (req: Request, res: Response) => {
+        const filters = orderFilterSchema.safeParse(req.query)
+        if (!filters.success) {
+            res.status(400).json({ message: "Filtros inválidos", errors: filters.error.flatten().fieldErrors })
+            return
         }
 
-        const result = await orderService.getOrders(filters)
+        const result = await orderService.getOrders({ ...filters.data, userId: req.user!.id, document: undefined })
         res.json(result)
     }),
 
+    getMyOrderById: asyncHandler(async (req, res) => {
+        const order = await orderService.getOrderById(req.params.id)
+
+        if (!order || order.userId !== req.user!.id) {
+            res.status(404).json({ error: "Pedido não encontrado" })
+            return
+        }
+
+        res.json(order)
+    }),
+
+    getMyOrderTimeline: asyncHandler(async (req, res) => {
+        const order = await orderService.getOrderById(req.params.id)
+
+        if (!order || order.userId !== req.user!.id) {
+            res.status(404).json({ error: "Pedido não encontrado" })
+            return
+        }
+
+        const timeline = await orderEventService.getOrderTimeline(order.id, false)
+        res.json(timeline)
+    }),
+
 
     getOrderById: asyncHandler(async (req, res) => {
         const id = req.params.id
@@ -38,20 +74,44 @@ export const orderController = {
         res.json(order)
     }),
 
+    getOrderTimeline: asyncHandler(async (req, res) => {
+        const order = await orderService.getOrderById(req.params.id)
+
+        if (!order) {
+            res.status(404).json({ error: "Pedido não encontrado" })
+            return
+        }
+
+        const timeline = await orderEventService.getOrderTimeline(order.id)
+        res.json(timeline)
+    }),
+
 
     createOrder: asyncHandler(async (req, res) => {
 
-        const data = req.body
+        // parse descarta campos fora do schema; o autor da venda vem sempre da sessão
+        const data = createOrderSchema.parse(req.body)
+
+        const manualPricing = getRequestPermissions(req).includes("orders:pricing")
+        const order = await orderService.createOrder({ ...data, createdById: req.user!.id }, false, manualPricing)
+        res.status(201).json(order)
+    }),
+
+    checkout: asyncHandler(async (req, res) => {
+
+        // O cliente não escolhe status, pagamento nem autor do pedido: só os campos do checkout são repassados
+        const data = checkoutOrderSchema.parse(req.body)
 
-        const order = await orderService.createOrder(data)
+        const order = await orderService.createOrder({ ...data, userId: req.user!.id }, true)
         res.status(201).json(order)
     }),
 
     updateOrder: asyncHandler(async (req, res) => {
         const id = req.params.id
-        const data = req.body
+        const data = updateOrderSchema.parse(req.body)
 
-        const order = await orderService.updateOrder(id, data)
+        const manualPricing = getRequestPermissions(req).includes("orders:pricing")
+        const order = await orderService.updateOrder(id, data, manualPricing)
 
         if (!order) {
             res.status(404).json({ error: "Pedido não encontrado" })
@@ -63,9 +123,12 @@ export const orderController = {
 
     updateOrderStatus: asyncHandler(async (req, res) => {
         const id = req.params.id
-        const data = req.body
+        const data = updateOrderStatusSchema.parse(req.body)
 
-        const order = await orderService.updateOrderStatus(id, data)
+        const order = await orderService.updateOrderStatus(id, {
+            ...data,
+            estimatedDelivery: data.estimatedDelivery ? new Date(data.estimatedDelivery) : undefined,
+        })
 
         if (!order) {
             res.status(404).json({ error: "Pedido não encontrado" })
@@ -2,6 +2,7 @@ import type { Request, Response } from "express"
 
 import * as productService from "../services/product"
 import { asyncHandler } from "../../helper"
+import emailVerificationService from "../services/email-verification"
 import { ProductFilterParams } from "../../interfaces/product"
 
 export const productController = {
@@ -138,6 +139,8 @@ export const productController = {
         const { id } = req.params
         const reviewData = req.body
 
+        await emailVerificationService.assertVerifiedEmail(req.user!.id, "reviews")
+
         const review = await productService.addProductReview(id, reviewData)
 
         if (!review) {
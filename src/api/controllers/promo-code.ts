@@ -0,0 +1,60 @@
+import type { Request, Response } from "express"
+import { z } from "zod"
+import { asyncHandler } from "../../helper"
+import promoCodeService from "../services/promo-code"
+import orderService from "../services/order"
+import { createPromoCodeSchema, updatePromoCodeSchema, validatePromoCodeSchema } from "../../../lib/zodschemas/promo-code"
+
+const MAX_PAGE_SIZE = 100
+
+export const promoCodeController = {
+    getPromoCodes: asyncHandler(async (req: Request, res: Response) => {
+        const result = await promoCodeService.getPromoCodes({
+            search: req.query.search as string,
+            active: req.query.active === undefined ? undefined : req.query.active === "true",
+            page: Math.max(Number(req.query.page) || 1, 1),
+            limit: Math.min(Math.max(Number(req.query.limit) || 20, 1), MAX_PAGE_SIZE),
+        })
+        res.json(result)
+    }),
+
+    getPromoCodeById: asyncHandler(async (req: Request, res: Response) => {
+        const promoCode = await promoCodeService.getPromoCodeById(req.params.id)
+        if (!promoCode) {
+            res.status(404).json({ error: "Cupom não encontrado" })
+            return
+        }
+        res.json(promoCode)
+    }),
+
+    createPromoCode: asyncHandler(async (req: Request, res: Response) => {
+        const data: z.infer<typeof createPromoCodeSchema> = req.body
+        const promoCode = await promoCodeService.createPromoCode(data)
+        res.status(201).json(promoCode)
+    }),
+
+    updatePromoCode: asyncHandler(async (req: Request, res: Response) => {
+        const data: z.infer<typeof updatePromoCodeSchema> = req.body
+        const promoCode = await promoCodeService.updatePromoCode(req.params.id, data)
+        if (!promoCode) {
+            res.status(404).json({ error: "Cupom não encontrado" })
+            return
+        }
+        res.json(promoCode)
+    }),
+
+    deletePromoCode: asyncHandler(async (req: Request, res: Response) => {
+        const deleted = await promoCodeService.deletePromoCode(req.params.id)
+        if (!deleted) {
+            res.status(404).json({ error: "Cupom não encontrado" })
+            return
+        }
+        res.status(204).send()
+    }),
+
+    validatePromoCode: asyncHandler(async (req: Request, res: Response) => {
+        const { code, items, currency }: z.infer<typeof validatePromoCodeSchema> = req.body
+        const result = await orderService.previewPromoCode(code, items, currency)
+        res.json(result)
+    }),
+}
@@ -1,19 +1,26 @@
 import type { Request, Response } from "express"
-import { asyncHandler } from "../../helper"
+import { asyncHandler, getClientInfo } from "../../helper"
 import { UserService } from "../services/user"
+import impersonationService from "../services/impersonation"
+import dataPrivacyService from "../services/data-privacy"
+import loyaltyService from "../services/loyalty"
 
 const userService = new UserService()
 
+const USER_SORT_FIELDS = ["name", "email", "role", "status", "createdAt", "lastLogin"]
+const MAX_PAGE_SIZE = 100
+
 export const userController = {
     getUsers: asyncHandler(async (req: Request, res: Response) => {
         const filters = {
             search: req.query.search as string,
+            document: req.query.document as string,
             role: req.query.role as any,
             status: req.query.status as any,
-            sortBy: (req.query.sortBy as string) || "name",
-            sortOrder: (req.query.sortOrder as "asc" | "desc") || "asc",
-            page: req.query.page ? Number(req.query.page) : 1,
-            limit: req.query.limit ? Number(req.query.limit) : 10,
+            sortBy: USER_SORT_FIELDS.includes(req.query.sortBy as string) ? (req.query.sortBy as string) : "name",
+            sortOrder: req.query.sortOrder === "desc" ? "desc" as const : "asc" as const,
+            page: Math.max(Number(req.query.page) || 1, 1),
+            limit: Math.min(Math.max(Number(req.query.limit) || 10, 1), MAX_PAGE_SIZE),
         }
         const result = await userService.getUsers(filters)
         res.json(result)
@@ -43,10 +50,16 @@ export const userController = {
     }),
 
 
+    createUser: asyncHandler(async (req: Request, res: Response) => {
+        const data = req.body
+        const user = await userService.createUser(data, req.user!)
+        res.status(201).json(user)
+    }),
+
     updateUser: asyncHandler(async (req: Request, res: Response) => {
         const id = req.params.id
         const data = req.body
-        const user = await userService.updateUser(id, data)
+        const user = await userService.updateUser(id, data, req.user!)
         if (!user) {
             res.status(404).json({ error: "Usuário não encontrado" })
             return
@@ -57,7 +70,44 @@ export const userController = {
     deactivateUser: asyncHandler(async (req: Request, res: Response) => {
         const id = req.params.id
 
-        const success = await userService.deactivateUser(id)
+        const success = await userService.deactivateUser(id, req.user!)
+
+        if (!success) {
+            res.status(404).json({ error: "Usuário não encontrado" })
+            return
+        }
+        res.json({ success: true })
+    }),
+
+    getUserPermissions: asyncHandler(async (req: Request, res: Response) => {
+        const id = req.params.id
+
+        const permissions = await userService.getUserPermissions(id)
+
+        if (!permissions) {
+            res.status(404).json({ error: "Usuário não encontrado" })
+            return
+        }
+        res.json(permissions)
+    }),
+
+    updateUserPermissions: asyncHandler(async (req: Request, res: Response) => {
+        const id = req.params.id
+        const data = req.body
+
+        const permissions = await userService.updateUserPermissions(id, data, req.user!)
+
+        if (!permissions) {
+            res.status(404).json({ error: "Usuário não encontrado" })
+            return
+        }
+        res.json(permissions)
+    }),
+
+    unlockUser: asyncHandler(async (req: Request, res: Response) => {
+        const id = req.params.id
+
+        const success = await userService.unlockUser(id)
 
         if (!success) {
             res.status(404).json({ error: "Usuário não encontrado" })
@@ -65,4 +115,53 @@ export const userController = {
         }
         res.json({ success: true })
     }),
+
+    resetTwoFactor: asyncHandler(async (req: Request, res: Response) => {
+        const id = req.params.id
+
+        const success = await userService.resetTwoFactor(id)
+
+        if (!success) {
+            res.status(404).json({ error: "Usuário não encontrado" })
+            return
+        }
+        res.json({ success: true })
+    }),
+
+    impersonateUser: asyncHandler(async (req: Request, res: Response) => {
+        const id = req.params.id
+
+        const impersonation = await impersonationService.startImpersonation(req.user!, id, getClientInfo(req))
+
+        if (!impersonation) {
+            res.status(404).json({ error: "Usuário não encontrado" })
+            return
+        }
+        res.status(201).json(impersonation)
+    }),
+
+    exportUserData: asyncHandler(async (req: Request, res: Response) => {
+        const id = req.params.id
+
+        const data = await dataPrivacyService.exportUserData(id)
+
+        if (!data) {
+            res.status(404).json({ error: "Usuário não encontrado" })
+            return
+        }
+        res.setHeader("Content-Disposition", `attachment; filename="dados-${id}.json"`)
+        res.json(data)
+    }),
+
+    getLoyaltyStatement: asyncHandler(async (req: Request, res: Response) => {
+        const statement = await loyaltyService.getStatement(req.params.id, {
+            page: Math.max(Number(req.query.page) || 1, 1),
+            limit: Math.min(Math.max(Number(req.query.limit) || 20, 1), MAX_PAGE_SIZE),
+        })
+        if (!statement) {
+            res.status(404).json({ error: "Usuário não encontrado" })
+            return
+        }
+        res.json(statement)
+    }),
 }
@@ -0,0 +1,36 @@
+import type { NextFunction, Request, Response } from "express"
+import { Prisma } from "@prisma/client"
+import { HttpError } from "../../../lib/http-error"
+
+// O Express só reconhece o tratador de erros pela assinatura com quatro parâmetros
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function errorHandlerMiddleware(err: unknown, _req: Request, res: Response, _next: NextFunction) {
+    if (err instanceof HttpError) {
+        const retryAfter = (err.details as { retryAfter?: unknown } | undefined)?.retryAfter
+        if (typeof retryAfter === "number") {
+            res.set("Retry-After", String(retryAfter))
+        }
+        res.status(err.status).json({
+            message: err.message,
+            ...(err.details !== undefined ? { details: err.details } : {}),
+        })
+        return
+    }
+
+    // Violação de unicidade, por exemplo dois cadastros simultâneos com o mesmo e-mail
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+        res.status(409).json({ message: "Já existe um registro com estes dados" })
+        return
+    }
+
+    const status = (err as { status?: unknown })?.status
+    if (typeof status === "number" && status >= 400 && status < 500) {
+        res.status(status).json({ message: "Requisição inválida" })
+        return
+    }
+
+    console.error(err)
+    res.status(500).json({ message: "Erro interno do servidor" })
+}
+
+export { errorHandlerMiddleware }
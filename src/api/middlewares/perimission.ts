@@ -1,19 +1,35 @@
+import type { Request } from "express"
 import { asyncHandler } from "../../helper"
+import { isTwoFactorRequired } from "../services/two-factor"
+import { Permission, resolvePermissions } from "../../../lib/permissions"
 
 
-const permissionMiddleware = (permission: string[] | string) => {
+/**
+ * Permissões efetivas da requisição. Chaves de API ficam limitadas aos escopos concedidos e às permissões atuais
+ * de quem as criou.
+ */
+function getRequestPermissions(req: Request): Permission[] {
+    if (!req.user) {
+        return []
+    }
+    const userPermissions = resolvePermissions(req.user)
+    return req.apiKey ? userPermissions.filter(p => req.apiKey!.scopes.includes(p)) : userPermissions
+}
+
+const permissionMiddleware = (permission: Permission[] | Permission) => {
     return asyncHandler(async (req, res, next) => {
         const user = req.user
         if (!user) {
             res.status(401).json({ message: "Não autorizado" })
             return
         }
-        if (user.role === "ADMIN") {
-            next()
+        if (!req.apiKey && !user.twoFactorEnabled && await isTwoFactorRequired(user.role)) {
+            res.status(403).json({ message: "Autenticação em dois fatores obrigatória para o seu perfil" })
             return
         }
         const permissionsArray = Array.isArray(permission) ? permission : [permission];
-        if (!user.permissions || !permissionsArray.some(p => user.permissions.includes(p))) {
+        const effectivePermissions = getRequestPermissions(req)
+        if (!permissionsArray.some(p => effectivePermissions.includes(p))) {
             res.status(403).json({ message: "Acesso negado" })
             return
         }
@@ -21,4 +37,4 @@ const permissionMiddleware = (permission: string[] | string) => {
         next()
     })
 }
-export { permissionMiddleware }
\ No newline at end of file
+export { permissionMiddleware, getRequestPermissions }
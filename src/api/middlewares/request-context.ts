@@ -0,0 +1,8 @@
+import type { NextFunction, Request, Response } from "express"
+import { runWithRequest } from "../../../lib/request-context"
+
+const requestContextMiddleware = (req: Request, _res: Response, next: NextFunction) => {
+    runWithRequest(req, next)
+}
+
+export { requestContextMiddleware }
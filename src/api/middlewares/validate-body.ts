@@ -8,7 +8,7 @@ function validateBodyMiddleware<T>(schema: ZodSchema<T>) {
         if (isValid !== true) {
             res.status(400).json({
                 message: "Invalid body",
-                errors: isValid.format()._errors
+                errors: isValid.flatten().fieldErrors
             })
             return
         }
@@ -0,0 +1,17 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { apiKeyController } from "../controllers/api-key"
+import { permissionMiddleware } from "../middlewares/perimission"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import { createApiKeySchema } from "../../../lib/zodschemas/api-key"
+const { secure, requireSession } = authController
+
+const router = Router()
+
+router.use(secure, requireSession, permissionMiddleware("api-keys:manage"))
+
+router.get("/", apiKeyController.listApiKeys)
+router.post("/", validateBodyMiddleware(createApiKeySchema), apiKeyController.createApiKey)
+router.delete("/:id", apiKeyController.revokeApiKey)
+
+export default router
@@ -0,0 +1,14 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { auditController } from "../controllers/audit"
+import { permissionMiddleware } from "../middlewares/perimission"
+const { secure } = authController
+
+const router = Router()
+
+router.use(secure, permissionMiddleware("audit:read"))
+
+router.get("/", auditController.getAuditLogs)
+router.get("/export", auditController.exportAuditLogs)
+
+export default router
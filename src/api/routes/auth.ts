@@ -0,0 +1,23 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import { forgotPasswordSchema, googleCallbackSchema, resetPasswordSchema, signinSchema, signupSchema, twoFactorChallengeSchema, verifyEmailSchema } from "../../../lib/zodschemas/user"
+const { secure, requireSession } = authController
+
+const router = Router()
+
+router.post("/signup", validateBodyMiddleware(signupSchema), authController.signup)
+router.post("/signin", validateBodyMiddleware(signinSchema), authController.signin)
+router.post("/2fa/verify", validateBodyMiddleware(twoFactorChallengeSchema), authController.verifyTwoFactor)
+router.post("/session", authController.session)
+router.get("/google", authController.googleAuthorize)
+router.post("/google/callback", validateBodyMiddleware(googleCallbackSchema), authController.googleCallback)
+router.get("/password-policy", authController.passwordPolicy)
+router.post("/forgot-password", validateBodyMiddleware(forgotPasswordSchema), authController.forgotPassword)
+router.post("/reset-password", validateBodyMiddleware(resetPasswordSchema), authController.resetPassword)
+router.post("/verify-email", validateBodyMiddleware(verifyEmailSchema), authController.verifyEmail)
+
+router.post("/signout", secure, requireSession, authController.signout)
+router.post("/resend-verification", secure, requireSession, authController.resendVerification)
+
+export default router
@@ -18,7 +18,7 @@ router.use(secure)
 
 router.post(
     "/",
-    permissionMiddleware(["ADMIN", "MANAGER"]),
+    permissionMiddleware("collections:write"),
     validateBodyMiddleware(createCollectionSchema),
     collectionController.createCollection,
 )
@@ -26,25 +26,25 @@ router.post(
 
 router.put(
     "/:id",
-    permissionMiddleware(["ADMIN", "MANAGER"]),
+    permissionMiddleware("collections:write"),
     validateBodyMiddleware(updateCollectionSchema),
     collectionController.updateCollection,
 )
 
 
-router.delete("/:id", permissionMiddleware(["ADMIN"]), collectionController.deleteCollection)
+router.delete("/:id", permissionMiddleware("collections:delete"), collectionController.deleteCollection)
 
 
 router.post(
     "/:id/products",
-    permissionMiddleware(["ADMIN", "MANAGER"]),
+    permissionMiddleware("collections:write"),
     validateBodyMiddleware(addProductsToCollectionSchema),
     collectionController.addProductsToCollection,
 )
 
 router.delete(
     "/:id/products",
-    permissionMiddleware(["ADMIN", "MANAGER"]),
+    permissionMiddleware("collections:write"),
     validateBodyMiddleware(removeProductsFromCollectionSchema),
     collectionController.removeProductsFromCollection,
 )
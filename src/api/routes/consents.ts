@@ -0,0 +1,17 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { consentController } from "../controllers/consent"
+import { permissionMiddleware } from "../middlewares/perimission"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import { consentTokenSchema } from "../../../lib/zodschemas/consent"
+const { secure } = authController
+
+const router = Router()
+
+router.post("/confirm", validateBodyMiddleware(consentTokenSchema), consentController.confirmConsent)
+router.post("/unsubscribe", validateBodyMiddleware(consentTokenSchema), consentController.unsubscribe)
+
+router.get("/customers", secure, permissionMiddleware("marketing:export"), consentController.getConsentingCustomers)
+router.get("/customers/export", secure, permissionMiddleware("marketing:export"), consentController.exportConsentingCustomers)
+
+export default router
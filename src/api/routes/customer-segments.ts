@@ -0,0 +1,26 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { customerSegmentController } from "../controllers/customer-segment"
+import { permissionMiddleware } from "../middlewares/perimission"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import {
+    createCustomerSegmentSchema,
+    customerSegmentRulesSchema,
+    updateCustomerSegmentSchema,
+} from "../../../lib/zodschemas/customer-segment"
+const { secure } = authController
+
+const router = Router()
+
+router.use(secure, permissionMiddleware("marketing:segments"))
+
+router.get("/", customerSegmentController.listSegments)
+router.post("/", validateBodyMiddleware(createCustomerSegmentSchema), customerSegmentController.createSegment)
+router.post("/preview", validateBodyMiddleware(customerSegmentRulesSchema), customerSegmentController.previewSegment)
+router.get("/:id", customerSegmentController.getSegment)
+router.put("/:id", validateBodyMiddleware(updateCustomerSegmentSchema), customerSegmentController.updateSegment)
+router.delete("/:id", customerSegmentController.deleteSegment)
+router.get("/:id/members", customerSegmentController.getSegmentMembers)
+router.get("/:id/export", permissionMiddleware("marketing:export"), customerSegmentController.exportSegmentMembers)
+
+export default router
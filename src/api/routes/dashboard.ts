@@ -16,27 +16,27 @@ router.use(secure)
 
 router.post(
     "/",
-    permissionMiddleware("ADMIN"),
+    permissionMiddleware("collections:write"),
     validateBodyMiddleware(createCollectionSchema),
     collectionController.createCollection,
 )
 router.put(
     "/:id",
-    permissionMiddleware("ADMIN"),
+    permissionMiddleware("collections:write"),
     validateBodyMiddleware(updateCollectionSchema),
     collectionController.updateCollection,
 )
-router.delete("/:id", permissionMiddleware("ADMIN"), collectionController.deleteCollection)
+router.delete("/:id", permissionMiddleware("collections:delete"), collectionController.deleteCollection)
 router.post(
     "/:id/products",
-    permissionMiddleware("ADMIN"),
+    permissionMiddleware("collections:write"),
     validateBodyMiddleware(addProductsToCollectionSchema),
     collectionController.addProductsToCollection,
 )
 
 router.delete(
     "/:id/products",
-    permissionMiddleware("ADMIN"),
+    permissionMiddleware("collections:write"),
     validateBodyMiddleware(removeProductsFromCollectionSchema),
     collectionController.removeProductsFromCollection,
 )
@@ -0,0 +1,17 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { dataErasureController } from "../controllers/data-erasure"
+import { permissionMiddleware } from "../middlewares/perimission"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import { approveDataErasureSchema, rejectDataErasureSchema } from "../../../lib/zodschemas/user"
+const { secure } = authController
+
+const router = Router()
+
+router.use(secure, permissionMiddleware("users:privacy"))
+
+router.get("/", dataErasureController.getErasureRequests)
+router.post("/:id/approve", validateBodyMiddleware(approveDataErasureSchema), dataErasureController.approveErasureRequest)
+router.post("/:id/reject", validateBodyMiddleware(rejectDataErasureSchema), dataErasureController.rejectErasureRequest)
+
+export default router
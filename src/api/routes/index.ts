@@ -1,11 +1,35 @@
 import { Router } from 'express';
 import productsRoutes from './products'
 import dashboardRoutes from './dashboard'
+import authRoutes from './auth'
+import meRoutes from './me'
+import usersRoutes from './users'
+import apiKeysRoutes from './api-keys'
+import auditLogsRoutes from './audit-logs'
+import dataErasureRequestsRoutes from './data-erasure-requests'
+import consentsRoutes from './consents'
+import customerSegmentsRoutes from './customer-segments'
+import ordersRoutes from './orders'
+import promoCodesRoutes from './promo-codes'
+import settingsRoutes from './settings'
+import collectionRoutes from './collection'
+import supportRoutes from './support'
 const router = Router();
 
+router.use('/auth', authRoutes);
+router.use('/me', meRoutes);
+router.use('/users', usersRoutes);
+router.use('/api-keys', apiKeysRoutes);
+router.use('/audit-logs', auditLogsRoutes);
+router.use('/data-erasure-requests', dataErasureRequestsRoutes);
+router.use('/consents', consentsRoutes);
+router.use('/customer-segments', customerSegmentsRoutes);
 router.use('/products', productsRoutes);
+router.use('/orders', ordersRoutes);
+router.use('/promo-codes', promoCodesRoutes);
 router.use('/dashboard', dashboardRoutes);
-router.use('/collections', dashboardRoutes);
-router.use('/support', dashboardRoutes);
+router.use('/settings', settingsRoutes);
+router.use('/collections', collectionRoutes);
+router.use('/support', supportRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { meController } from "../controllers/me"
+import { addressController } from "../controllers/address"
+import { orderController } from "../controllers/order"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import {
+    changePasswordSchema,
+    dataErasureRequestSchema,
+    googleCallbackSchema,
+    twoFactorCodeSchema,
+    twoFactorDisableSchema,
+    updateProfileSchema,
+} from "../../../lib/zodschemas/user"
+import { consentScopeSchema } from "../../../lib/zodschemas/consent"
+import { createAddressSchema, updateAddressSchema } from "../../../lib/zodschemas/address"
+import { checkoutOrderSchema } from "../../../lib/zodschemas/order"
+const { secure, requireSession, forbidImpersonation } = authController
+
+const router = Router()
+
+router.use(secure, requireSession)
+
+router.get("/", meController.getProfile)
+router.put("/", validateBodyMiddleware(updateProfileSchema), meController.updateProfile)
+router.put("/password", forbidImpersonation, validateBodyMiddleware(changePasswordSchema), meController.changePassword)
+router.get("/permissions", meController.getPermissions)
+router.get("/google/authorize", forbidImpersonation, meController.authorizeGoogleLink)
+router.post("/google/link", forbidImpersonation, validateBodyMiddleware(googleCallbackSchema), meController.linkGoogleAccount)
+
+router.get("/sessions", meController.getSessions)
+router.delete("/sessions", forbidImpersonation, meController.revokeOtherSessions)
+router.delete("/sessions/:id", forbidImpersonation, meController.revokeSession)
+
+router.post("/2fa/setup", forbidImpersonation, meController.setupTwoFactor)
+router.post("/2fa/enable", forbidImpersonation, validateBodyMiddleware(twoFactorCodeSchema), meController.enableTwoFactor)
+router.post("/2fa/disable", forbidImpersonation, validateBodyMiddleware(twoFactorDisableSchema), meController.disableTwoFactor)
+router.post("/2fa/recovery-codes", forbidImpersonation, validateBodyMiddleware(twoFactorCodeSchema), meController.regenerateRecoveryCodes)
+
+router.get("/data-export", forbidImpersonation, meController.exportData)
+router.get("/data-erasure", meController.getDataErasureRequests)
+router.post("/data-erasure", forbidImpersonation, validateBodyMiddleware(dataErasureRequestSchema), meController.requestDataErasure)
+
+router.get("/consents", meController.getConsents)
+router.post("/consents", forbidImpersonation, validateBodyMiddleware(consentScopeSchema), meController.requestConsent)
+router.post("/consents/withdraw", forbidImpersonation, validateBodyMiddleware(consentScopeSchema), meController.withdrawConsent)
+
+router.get("/loyalty", meController.getLoyaltyStatement)
+
+router.get("/orders", orderController.getMyOrders)
+router.post("/orders", validateBodyMiddleware(checkoutOrderSchema), orderController.checkout)
+router.get("/orders/:id", orderController.getMyOrderById)
+router.get("/orders/:id/timeline", orderController.getMyOrderTimeline)
+
+router.get("/addresses", addressController.getAddresses)
+router.post("/addresses", validateBodyMiddleware(createAddressSchema), addressController.createAddress)
+router.get("/addresses/:id", addressController.getAddressById)
+router.put("/addresses/:id", validateBodyMiddleware(updateAddressSchema), addressController.updateAddress)
+router.post("/addresses/:id/default", addressController.setDefaultAddress)
+router.delete("/addresses/:id", addressController.deleteAddress)
+
+export default router
@@ -0,0 +1,41 @@
+import { Router } from "express"
+import { asyncHandler } from "../../helper"
+import { authController } from "../controllers/auth"
+import { orderController } from "../controllers/order"
+import { permissionMiddleware } from "../middlewares/perimission"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import { createOrderSchema, updateOrderSchema, updateOrderStatusSchema } from "../../../lib/zodschemas/order"
+const { secure } = authController
+
+const router = Router()
+
+// Marcar um pedido como reembolsado exige a permissão específica de reembolso
+const refundGuard = asyncHandler(async (req, res, next) => {
+    if (req.body.paymentStatus !== "REFUNDED") {
+        next()
+        return
+    }
+    await permissionMiddleware("orders:refund")(req, res, next)
+})
+
+router.use(secure)
+
+router.get("/", permissionMiddleware("orders:read"), orderController.getOrders)
+router.get("/:id", permissionMiddleware("orders:read"), orderController.getOrderById)
+router.get("/:id/timeline", permissionMiddleware("orders:read"), orderController.getOrderTimeline)
+router.post("/", permissionMiddleware("orders:write"), validateBodyMiddleware(createOrderSchema), orderController.createOrder)
+router.put(
+    "/:id",
+    permissionMiddleware("orders:write"),
+    validateBodyMiddleware(updateOrderSchema),
+    refundGuard,
+    orderController.updateOrder,
+)
+router.patch(
+    "/:id/status",
+    permissionMiddleware("orders:write"),
+    validateBodyMiddleware(updateOrderStatusSchema),
+    orderController.updateOrderStatus,
+)
+
+export default router
@@ -4,7 +4,7 @@ import { validateBodyMiddleware } from "../middlewares/validate-body"
 import { permissionMiddleware } from "../middlewares/perimission"
 import { createProductSchema, updateProductSchema, productReviewSchema } from "../../../lib/zodschemas/produtcts"
 import { authController } from "../controllers/auth"
-const { secure } = authController
+const { secure, requireSession } = authController
 
 const router = Router()
 
@@ -19,20 +19,20 @@ router.use(secure)
 
 router.post(
     "/",
-    permissionMiddleware("admin"),
+    permissionMiddleware("products:write"),
     validateBodyMiddleware(createProductSchema),
     productController.createProduct,
 )
 
 router.put(
     "/:id",
-    permissionMiddleware('admin'),
+    permissionMiddleware("products:write"),
     validateBodyMiddleware(updateProductSchema),
     productController.updateProduct,
 )
 
-router.delete("/:id", permissionMiddleware("admin"), productController.deleteProduct)
+router.delete("/:id", permissionMiddleware("products:delete"), productController.deleteProduct)
 
-router.post("/:id/reviews", validateBodyMiddleware(productReviewSchema), productController.addProductReview)
+router.post("/:id/reviews", requireSession, validateBodyMiddleware(productReviewSchema), productController.addProductReview)
 
 export default router
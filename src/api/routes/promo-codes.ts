@@ -0,0 +1,32 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { promoCodeController } from "../controllers/promo-code"
+import { permissionMiddleware } from "../middlewares/perimission"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import { promoCodeValidationLimiter } from "../../../lib/rate-limit"
+import { createPromoCodeSchema, updatePromoCodeSchema, validatePromoCodeSchema } from "../../../lib/zodschemas/promo-code"
+const { secure } = authController
+
+const router = Router()
+
+router.post("/validate", promoCodeValidationLimiter, validateBodyMiddleware(validatePromoCodeSchema), promoCodeController.validatePromoCode)
+
+router.get("/", secure, permissionMiddleware("promo-codes:write"), promoCodeController.getPromoCodes)
+router.post(
+    "/",
+    secure,
+    permissionMiddleware("promo-codes:write"),
+    validateBodyMiddleware(createPromoCodeSchema),
+    promoCodeController.createPromoCode,
+)
+router.get("/:id", secure, permissionMiddleware("promo-codes:write"), promoCodeController.getPromoCodeById)
+router.put(
+    "/:id",
+    secure,
+    permissionMiddleware("promo-codes:write"),
+    validateBodyMiddleware(updatePromoCodeSchema),
+    promoCodeController.updatePromoCode,
+)
+router.delete("/:id", secure, permissionMiddleware("promo-codes:write"), promoCodeController.deletePromoCode)
+
+export default router
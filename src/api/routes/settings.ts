@@ -10,11 +10,11 @@ const router = Router()
 
 router.use(secure)
 
-router.get("/", permissionMiddleware(["ADMIN", "MANAGER"]), settingsController.getSettings)
+router.get("/", permissionMiddleware("settings:read"), settingsController.getSettings)
 
 router.put(
     "/",
-    permissionMiddleware(["ADMIN"]),
+    permissionMiddleware("settings:write"),
     validateBodyMiddleware(storeSettingsSchema),
     settingsController.updateSettings,
 )
@@ -4,43 +4,43 @@ import supportController from "../controllers/support"
 import { validateBodyMiddleware } from "../middlewares/validate-body"
 import { addSupportTicketMessageSchema, assignSupportTicketSchema, closeSupportTicketSchema, createSupportTicketSchema, updateSupportTicketSchema } from "../../../lib/zodschemas/support"
 import { authController } from "../controllers/auth"
-const { secure } = authController
+const { secure, requireSession } = authController
 
 const router = Router()
 
 router.use(secure)
 
-router.get("/", permissionMiddleware(["ADMIN", "MANAGER", "SUPPORT"]), supportController.getSupportTickets)
+router.get("/", permissionMiddleware("support:read"), supportController.getSupportTickets)
 
-router.get("/:id", permissionMiddleware(["ADMIN", "MANAGER", "SUPPORT"]), supportController.getSupportTicketById)
+router.get("/:id", permissionMiddleware("support:read"), supportController.getSupportTicketById)
 
 router.get(
     "/:id/messages",
-    permissionMiddleware(["ADMIN", "MANAGER", "SUPPORT"]),
+    permissionMiddleware("support:read"),
     supportController.getSupportTicketMessages,
 )
 
-router.post("/", validateBodyMiddleware(createSupportTicketSchema), supportController.createSupportTicket)
+router.post("/", requireSession, validateBodyMiddleware(createSupportTicketSchema), supportController.createSupportTicket)
 
 router.put(
     "/:id",
-    permissionMiddleware(["ADMIN", "MANAGER", "SUPPORT"]),
+    permissionMiddleware("support:write"),
     validateBodyMiddleware(updateSupportTicketSchema),
     supportController.updateSupportTicket,
 )
 
-router.post("/:id/messages", validateBodyMiddleware(addSupportTicketMessageSchema), supportController.addSupportTicketMessage)
+router.post("/:id/messages", requireSession, validateBodyMiddleware(addSupportTicketMessageSchema), supportController.addSupportTicketMessage)
 
 router.post(
     "/:id/assign",
-    permissionMiddleware(["ADMIN", "MANAGER", "SUPPORT"]),
+    permissionMiddleware("support:write"),
     validateBodyMiddleware(assignSupportTicketSchema),
     supportController.assignSupportTicket,
 )
 
 router.post(
     "/:id/close",
-    permissionMiddleware(["ADMIN", "MANAGER", "SUPPORT"]),
+    permissionMiddleware("support:write"),
     validateBodyMiddleware(closeSupportTicketSchema),
     supportController.closeSupportTicket,
 )
@@ -0,0 +1,40 @@
+import { Router } from "express"
+import { authController } from "../controllers/auth"
+import { userController } from "../controllers/user"
+import { permissionMiddleware } from "../middlewares/perimission"
+import { validateBodyMiddleware } from "../middlewares/validate-body"
+import { createStaffSchema, updatePermissionsSchema, updateUserSchema } from "../../../lib/zodschemas/user"
+const { secure, requireSession, forbidImpersonation } = authController
+
+const router = Router()
+
+router.use(secure)
+
+router.get("/", permissionMiddleware("users:read"), userController.getUsers)
+router.post("/", permissionMiddleware("users:write"), validateBodyMiddleware(createStaffSchema), userController.createUser)
+router.get("/:id", permissionMiddleware("users:read"), userController.getUserById)
+router.put("/:id", permissionMiddleware("users:write"), validateBodyMiddleware(updateUserSchema), userController.updateUser)
+router.delete("/:id", permissionMiddleware("users:write"), userController.deactivateUser)
+router.get("/:id/performance", permissionMiddleware("users:read"), userController.getUserPerformance)
+router.get("/:id/loyalty", permissionMiddleware("users:read"), userController.getLoyaltyStatement)
+
+router.get("/:id/permissions", permissionMiddleware("users:read"), userController.getUserPermissions)
+router.put(
+    "/:id/permissions",
+    permissionMiddleware("users:permissions"),
+    validateBodyMiddleware(updatePermissionsSchema),
+    userController.updateUserPermissions,
+)
+
+router.post("/:id/unlock", permissionMiddleware("users:security"), userController.unlockUser)
+router.post("/:id/2fa/reset", permissionMiddleware("users:security"), userController.resetTwoFactor)
+router.get("/:id/data-export", permissionMiddleware("users:privacy"), userController.exportUserData)
+router.post(
+    "/:id/impersonate",
+    requireSession,
+    forbidImpersonation,
+    permissionMiddleware("users:impersonate"),
+    userController.impersonateUser,
+)
+
+export default router
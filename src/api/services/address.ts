@@ -0,0 +1,174 @@
+import type { AddressType, Prisma } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+
+type AddressInput = {
+    type: AddressType
+    street: string
+    number: string
+    complement?: string | null
+    neighborhood: string
+    city: string
+    state: string
+    zipCode: string
+    country: string
+    isDefault?: boolean
+}
+
+const ADDRESS_CONTENT_FIELDS = [
+    "type",
+    "street",
+    "number",
+    "complement",
+    "neighborhood",
+    "city",
+    "state",
+    "zipCode",
+    "country",
+] as const
+
+/**
+ * Tipos que disputam o mesmo padrão: um endereço BOTH serve tanto para cobrança quanto para entrega
+ */
+function overlappingTypes(type: AddressType): AddressType[] {
+    if (type === "BOTH") {
+        return ["BILLING", "SHIPPING", "BOTH"]
+    }
+    return [type, "BOTH"]
+}
+
+async function clearDefaults(tx: Prisma.TransactionClient, userId: string, type: AddressType, exceptId?: string) {
+    await tx.address.updateMany({
+        where: {
+            userId,
+            archivedAt: null,
+            isDefault: true,
+            type: { in: overlappingTypes(type) },
+            id: exceptId ? { not: exceptId } : undefined,
+        },
+        data: { isDefault: false },
+    })
+}
+
+async function hasDefault(tx: Prisma.TransactionClient, userId: string, type: AddressType) {
+    const count = await tx.address.count({
+        where: { userId, archivedAt: null, isDefault: true, type: { in: overlappingTypes(type) } },
+    })
+    return count > 0
+}
+
+async function isUsedByOrders(tx: Prisma.TransactionClient, addressId: string) {
+    const count = await tx.order.count({
+        where: { OR: [{ billingAddressId: addressId }, { shippingAddressId: addressId }] },
+    })
+    return count > 0
+}
+
+export async function getAddresses(userId: string) {
+    return prisma.address.findMany({
+        where: { userId, archivedAt: null },
+        orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+    })
+}
+
+export async function getAddressById(userId: string, id: string) {
+    return prisma.address.findFirst({
+        where: { id, userId, archivedAt: null },
+    })
+}
+
+/**
+ * Cria um endereço. O primeiro endereço de cada tipo vira o padrão automaticamente.
+ */
+export async function createAddress(userId: string, data: AddressInput) {
+    return prisma.$transaction(async (tx) => {
+        const isDefault = data.isDefault ?? !(await hasDefault(tx, userId, data.type))
+        if (isDefault) {
+            await clearDefaults(tx, userId, data.type)
+        }
+
+        return tx.address.create({
+            data: { ...data, userId, isDefault },
+        })
+    })
+}
+
+/**
+ * Atualiza um endereço. Se ele já foi usado em pedidos, o original é arquivado e uma nova versão é criada, para que
+ * os pedidos continuem apontando para o endereço da época.
+ */
+export async function updateAddress(userId: string, id: string, data: Partial<AddressInput>) {
+    return prisma.$transaction(async (tx) => {
+        const address = await tx.address.findFirst({
+            where: { id, userId, archivedAt: null },
+        })
+        if (!address) {
+            return null
+        }
+
+        const type = data.type ?? address.type
+        const isDefault = data.isDefault ?? address.isDefault
+        if (isDefault) {
+            await clearDefaults(tx, userId, type, id)
+        }
+
+        const contentChanged = ADDRESS_CONTENT_FIELDS.some((field) => data[field] !== undefined && data[field] !== address[field])
+        if (contentChanged && await isUsedByOrders(tx, id)) {
+            await tx.address.update({
+                where: { id },
+                data: { archivedAt: new Date(), isDefault: false },
+            })
+
+            const snapshot = Object.fromEntries(ADDRESS_CONTENT_FIELDS.map((field) => [field, address[field]]))
+            return tx.address.create({
+                data: { ...snapshot, ...data, userId, type, isDefault } as Prisma.AddressUncheckedCreateInput,
+            })
+        }
+
+        return tx.address.update({
+            where: { id },
+            data: { ...data, isDefault },
+        })
+    })
+}
+
+/**
+ * Remove um endereço, arquivando-o quando ele é referenciado por pedidos
+ */
+export async function deleteAddress(userId: string, id: string) {
+    return prisma.$transaction(async (tx) => {
+        const address = await tx.address.findFirst({
+            where: { id, userId, archivedAt: null },
+        })
+        if (!address) {
+            return false
+        }
+
+        if (await isUsedByOrders(tx, id)) {
+            await tx.address.update({
+                where: { id },
+                data: { archivedAt: new Date(), isDefault: false },
+            })
+        } else {
+            await tx.address.delete({
+                where: { id },
+            })
+        }
+
+        return true
+    })
+}
+
+export async function setDefaultAddress(userId: string, id: string) {
+    return updateAddress(userId, id, { isDefault: true })
+}
+
+export const addressService = {
+    getAddresses,
+    getAddressById,
+    createAddress,
+    updateAddress,
+    deleteAddress,
+    setDefaultAddress,
+}
+
+export default addressService
@@ -0,0 +1,124 @@
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { generateToken, hashToken } from "../../../lib/tokens"
+import { Permission, resolvePermissions } from "../../../lib/permissions"
+import type { User } from "@prisma/client"
+
+const KEY_PREFIX = "mk"
+const TOUCH_INTERVAL_MS = 60 * 1000
+
+type ApiKeyCreateDTO = {
+    name: string
+    scopes: Permission[]
+    allowedIps?: string[]
+    expiresAt?: string
+}
+
+const apiKeySelect = {
+    id: true,
+    name: true,
+    prefix: true,
+    scopes: true,
+    allowedIps: true,
+    expiresAt: true,
+    lastUsedAt: true,
+    lastUsedIp: true,
+    revokedAt: true,
+    createdAt: true,
+    createdBy: {
+        select: {
+            id: true,
+            name: true,
+        },
+    },
+}
+
+function normalizeIp(ip: string) {
+    return ip.startsWith("::ffff:") ? ip.slice(7) : ip
+}
+
+export async function listApiKeys() {
+    return prisma.apiKey.findMany({
+        orderBy: { createdAt: "desc" },
+        select: apiKeySelect,
+    })
+}
+
+/**
+ * Cria uma chave com escopos limitados às permissões de quem a cria. A chave completa só é retornada aqui.
+ */
+export async function createApiKey(creator: User, data: ApiKeyCreateDTO) {
+    const creatorPermissions = resolvePermissions(creator)
+    const forbiddenScopes = data.scopes.filter((scope) => !creatorPermissions.includes(scope))
+    if (forbiddenScopes.length > 0) {
+        throw new HttpError(403, "Não é possível conceder escopos que você não possui", { scopes: forbiddenScopes })
+    }
+
+    const prefix = generateToken(4)
+    const key = `${KEY_PREFIX}_${prefix}_${generateToken()}`
+
+    const apiKey = await prisma.apiKey.create({
+        data: {
+            name: data.name,
+            prefix,
+            keyHash: hashToken(key),
+            scopes: data.scopes,
+            allowedIps: (data.allowedIps ?? []).map(normalizeIp),
+            expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+            createdById: creator.id,
+        },
+        select: apiKeySelect,
+    })
+
+    return { ...apiKey, key }
+}
+
+export async function revokeApiKey(id: string) {
+    const result = await prisma.apiKey.updateMany({
+        where: { id, revokedAt: null },
+        data: { revokedAt: new Date() },
+    })
+
+    return result.count > 0
+}
+
+/**
+ * Valida a chave recebida no header e registra o último uso
+ */
+export async function authenticateApiKey(key: string, ip: string | null) {
+    const apiKey = await prisma.apiKey.findUnique({
+        where: { keyHash: hashToken(key) },
+        include: { createdBy: true },
+    })
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+        return null
+    }
+
+    if (apiKey.createdBy.status !== "ACTIVE") {
+        return null
+    }
+
+    const clientIp = ip ? normalizeIp(ip) : null
+    if (apiKey.allowedIps.length > 0 && (!clientIp || !apiKey.allowedIps.includes(clientIp))) {
+        return null
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS || apiKey.lastUsedIp !== clientIp) {
+        await prisma.apiKey.update({
+            where: { id: apiKey.id },
+            data: { lastUsedAt: new Date(), lastUsedIp: clientIp },
+        })
+    }
+
+    return apiKey
+}
+
+export const apiKeyService = {
+    listApiKeys,
+    createApiKey,
+    revokeApiKey,
+    authenticateApiKey,
+}
+
+export default apiKeyService
@@ -0,0 +1,209 @@
+import { Prisma, type AuditAction } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { getCurrentRequest } from "../../../lib/request-context"
+import { getClientInfo } from "../../helper"
+import { toCsv } from "../../../lib/csv"
+import { AuditLogFilterParams } from "../../interfaces"
+
+type AuditClient = Prisma.TransactionClient
+
+type AuditEntry = {
+    action: AuditAction
+    entityType: string
+    entityId: string
+    before?: object | null
+    after?: object | null
+}
+
+const REDACTED_FIELDS = ["password", "twoFactorSecret", "keyHash", "tokenHash", "token", "codeHash"]
+const EXPORT_LIMIT = 10000
+
+function toJson(value: object): Record<string, unknown> {
+    const json = JSON.parse(JSON.stringify(value))
+    for (const field of REDACTED_FIELDS) {
+        if (field in json) {
+            json[field] = "[REDACTED]"
+        }
+    }
+    return json
+}
+
+/**
+ * Mantém apenas os campos que mudaram entre os dois estados
+ */
+function diff(before: Record<string, unknown>, after: Record<string, unknown>) {
+    const changedBefore: Record<string, unknown> = {}
+    const changedAfter: Record<string, unknown> = {}
+
+    for (const key of Object.keys(after)) {
+        if (key === "updatedAt" || !(key in before)) {
+            continue
+        }
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+            changedBefore[key] = before[key]
+            changedAfter[key] = after[key]
+        }
+    }
+
+    return { before: changedBefore, after: changedAfter }
+}
+
+/**
+ * Registra uma alteração feita por um funcionário na requisição atual, inclusive quando ele age como um cliente.
+ * Alterações feitas pelos próprios clientes ou fora de uma requisição não são registradas.
+ */
+export async function recordAudit(entry: AuditEntry, client: AuditClient = prisma) {
+    const req = getCurrentRequest()
+    const actor = req?.user
+    const impersonator = req?.impersonator
+    if (!req || !actor || (actor.role === "CUSTOMER" && !impersonator)) {
+        return
+    }
+
+    let before = entry.before ? toJson(entry.before) : null
+    let after = entry.after ? toJson(entry.after) : null
+
+    if (entry.action === "UPDATE" && before && after) {
+        const changes = diff(before, after)
+        if (Object.keys(changes.after).length === 0) {
+            return
+        }
+        before = changes.before
+        after = changes.after
+    }
+
+    const { ip, userAgent } = getClientInfo(req)
+
+    await client.auditLog.create({
+        data: {
+            actorId: actor.id,
+            impersonatorId: impersonator?.id,
+            apiKeyId: req.apiKey?.id,
+            action: entry.action,
+            entityType: entry.entityType,
+            entityId: entry.entityId,
+            before: (before ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+            after: (after ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+            ip,
+            userAgent,
+        },
+    })
+}
+
+function buildWhere(filters: AuditLogFilterParams): Prisma.AuditLogWhereInput {
+    const { actorId, impersonatorId, entityType, entityId, action, startDate, endDate } = filters
+    const where: Prisma.AuditLogWhereInput = {}
+
+    if (actorId) {
+        where.actorId = actorId
+    }
+    if (impersonatorId) {
+        where.impersonatorId = impersonatorId
+    }
+    if (entityType) {
+        where.entityType = entityType
+    }
+    if (entityId) {
+        where.entityId = entityId
+    }
+    if (action) {
+        where.action = action
+    }
+    if (startDate || endDate) {
+        where.createdAt = {
+            gte: startDate ? new Date(startDate) : undefined,
+            lte: endDate ? new Date(endDate) : undefined,
+        }
+    }
+
+    return where
+}
+
+const actorSelect = {
+    select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+    },
+}
+
+const auditLogInclude = {
+    actor: actorSelect,
+    impersonator: actorSelect,
+}
+
+export async function getAuditLogs(filters: AuditLogFilterParams) {
+    try {
+        const { page = 1, limit = 20 } = filters
+        const where = buildWhere(filters)
+
+        const [total, logs] = await Promise.all([
+            prisma.auditLog.count({ where }),
+            prisma.auditLog.findMany({
+                where,
+                orderBy: { createdAt: "desc" },
+                skip: (page - 1) * limit,
+                take: limit,
+                include: auditLogInclude,
+            }),
+        ])
+
+        return {
+            data: logs,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        }
+    } catch (error) {
+        console.error("Erro ao buscar logs de auditoria:", error)
+        throw error
+    }
+}
+
+/**
+ * Exporta os logs filtrados em CSV (limitado aos registros mais recentes)
+ */
+export async function exportAuditLogs(filters: AuditLogFilterParams) {
+    try {
+        const logs = await prisma.auditLog.findMany({
+            where: buildWhere(filters),
+            orderBy: { createdAt: "desc" },
+            take: EXPORT_LIMIT,
+            include: auditLogInclude,
+        })
+
+        const header = ["createdAt", "actorId", "actorEmail", "impersonatorId", "impersonatorEmail", "apiKeyId", "action", "entityType", "entityId", "before", "after", "ip", "userAgent"]
+        const rows = logs.map((log) => [
+            log.createdAt,
+            log.actorId,
+            log.actor?.email,
+            log.impersonatorId,
+            log.impersonator?.email,
+            log.apiKeyId,
+            log.action,
+            log.entityType,
+            log.entityId,
+            log.before,
+            log.after,
+            log.ip,
+            log.userAgent,
+        ])
+
+        return toCsv(header, rows)
+    } catch (error) {
+        console.error("Erro ao exportar logs de auditoria:", error)
+        throw error
+    }
+}
+
+export const auditService = {
+    recordAudit,
+    getAuditLogs,
+    exportAuditLogs,
+}
+
+export default auditService
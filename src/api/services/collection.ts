@@ -1,6 +1,7 @@
 
 import { prisma } from "../../../prisma/prisma"
 import type { CollectionFilterParams, CreateCollectionDTO, UpdateCollectionDTO } from "../../interfaces/index"
+import { recordAudit } from "./audit"
 
 
 
@@ -216,6 +217,7 @@ export async function createCollection(data: CreateCollectionDTO) {
                 endDate: data.endDate,
             },
         })
+        await recordAudit({ action: "CREATE", entityType: "Collection", entityId: collection.id, after: collection })
 
         return collection
     } catch (error) {
@@ -257,6 +259,13 @@ export async function updateCollection(id: string, data: UpdateCollectionDTO) {
                 endDate: data.endDate,
             },
         })
+        await recordAudit({
+            action: "UPDATE",
+            entityType: "Collection",
+            entityId: id,
+            before: existingCollection,
+            after: updatedCollection,
+        })
 
         return updatedCollection
     } catch (error) {
@@ -279,6 +288,7 @@ export async function deleteCollection(id: string) {
         await prisma.collection.delete({
             where: { id },
         })
+        await recordAudit({ action: "DELETE", entityType: "Collection", entityId: id, before: existingCollection })
 
         return true
     } catch (error) {
@@ -334,6 +344,17 @@ export async function addProductsToCollection(id: string, productIds: string[])
             }),
         )
 
+        const addedProductIds = results.filter((result) => result.success).map((result) => result.productId)
+        if (addedProductIds.length > 0) {
+            await recordAudit({
+                action: "UPDATE",
+                entityType: "Collection",
+                entityId: id,
+                before: { addedProductIds: [] },
+                after: { addedProductIds },
+            })
+        }
+
         return {
             collectionId: id,
             results,
@@ -364,6 +385,13 @@ export async function removeProductsFromCollection(id: string, productIds: strin
                 },
             },
         })
+        await recordAudit({
+            action: "UPDATE",
+            entityType: "Collection",
+            entityId: id,
+            before: { removedProductIds: [] },
+            after: { removedProductIds: productIds },
+        })
 
         return {
             collectionId: id,
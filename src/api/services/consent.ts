@@ -0,0 +1,318 @@
+import crypto from "crypto"
+import { Prisma, type ConsentChannel, type ConsentPurpose, type User } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { generateToken, hashToken } from "../../../lib/tokens"
+import { sendMail } from "../../../lib/mailer"
+import { toCsv } from "../../../lib/csv"
+
+const CONFIRMATION_TOKEN_TTL_MS = 48 * 60 * 60 * 1000
+const EXPORT_LIMIT = 50000
+
+type ClientInfo = {
+    ip: string | null
+    userAgent: string | null
+}
+
+type ConsentScope = {
+    channel: ConsentChannel
+    purpose: ConsentPurpose
+}
+
+type ConsentingCustomersFilters = ConsentScope & {
+    page?: number
+    limit?: number
+}
+
+const PURPOSE_LABELS: Record<ConsentPurpose, string> = {
+    MARKETING: "ofertas e promoções",
+    NEWSLETTER: "newsletter",
+}
+
+const CHANNEL_LABELS: Record<ConsentChannel, string> = {
+    EMAIL: "email",
+    SMS: "SMS",
+    WHATSAPP: "WhatsApp",
+}
+
+function getUnsubscribeSecret() {
+    const secret = process.env.UNSUBSCRIBE_TOKEN_SECRET
+    if (!secret) {
+        throw new HttpError(503, "Descadastro não configurado")
+    }
+    return secret
+}
+
+function signUnsubscribePayload(payload: string, secret: string) {
+    return crypto.createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+/**
+ * Gera um token de descadastro que não expira e dispensa login. Ele é enviado nos links das campanhas.
+ */
+export function createUnsubscribeToken(userId: string, scope: ConsentScope) {
+    const payload = Buffer.from(`${userId}.${scope.channel}.${scope.purpose}`).toString("base64url")
+    return `${payload}.${signUnsubscribePayload(payload, getUnsubscribeSecret())}`
+}
+
+function parseUnsubscribeToken(token: string) {
+    const [payload, signature] = token.split(".")
+    if (!payload || !signature) {
+        return null
+    }
+
+    const expected = Buffer.from(signUnsubscribePayload(payload, getUnsubscribeSecret()))
+    const received = Buffer.from(signature)
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+        return null
+    }
+
+    const [userId, channel, purpose] = Buffer.from(payload, "base64url").toString().split(".")
+    return { userId, channel: channel as ConsentChannel, purpose: purpose as ConsentPurpose }
+}
+
+export function getUnsubscribeUrl(userId: string, scope: ConsentScope) {
+    return `${process.env.FRONTEND_URL ?? ""}/unsubscribe?token=${createUnsubscribeToken(userId, scope)}`
+}
+
+/**
+ * Mantém `User.marketingConsent` em sincronia com o consentimento de marketing por email
+ */
+async function syncMarketingFlag(userId: string, tx: Prisma.TransactionClient) {
+    const consent = await tx.userConsent.findUnique({
+        where: { userId_channel_purpose: { userId, channel: "EMAIL", purpose: "MARKETING" } },
+    })
+    await tx.user.update({
+        where: { id: userId },
+        data: { marketingConsent: consent?.status === "GRANTED" },
+    })
+}
+
+async function appendRecord(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    scope: ConsentScope,
+    action: "REQUESTED" | "GRANTED" | "WITHDRAWN",
+    source: string,
+    client: ClientInfo,
+) {
+    await tx.consentRecord.create({
+        data: {
+            userId,
+            channel: scope.channel,
+            purpose: scope.purpose,
+            action,
+            source,
+            ip: client.ip,
+            userAgent: client.userAgent,
+        },
+    })
+}
+
+/**
+ * Registra o pedido de consentimento e envia o email de confirmação (double opt-in). O consentimento só vale após a
+ * confirmação.
+ */
+export async function requestConsent(user: Pick<User, "id" | "name" | "email">, scope: ConsentScope, source: string, client: ClientInfo) {
+    const existing = await prisma.userConsent.findUnique({
+        where: { userId_channel_purpose: { userId: user.id, ...scope } },
+    })
+    if (existing?.status === "GRANTED") {
+        return existing
+    }
+
+    const token = generateToken()
+    const consent = await prisma.$transaction(async (tx) => {
+        const data = {
+            status: "PENDING" as const,
+            confirmationTokenHash: hashToken(token),
+            confirmationExpiresAt: new Date(Date.now() + CONFIRMATION_TOKEN_TTL_MS),
+        }
+        const consent = await tx.userConsent.upsert({
+            where: { userId_channel_purpose: { userId: user.id, ...scope } },
+            create: { userId: user.id, ...scope, ...data },
+            update: data,
+        })
+        await appendRecord(tx, user.id, scope, "REQUESTED", source, client)
+        return consent
+    })
+
+    const confirmUrl = `${process.env.FRONTEND_URL ?? ""}/confirm-consent?token=${token}`
+    await sendMail({
+        to: user.email,
+        subject: "Confirme sua inscrição",
+        text: `Olá ${user.name},\n\nConfirme que deseja receber ${PURPOSE_LABELS[scope.purpose]} por ${CHANNEL_LABELS[scope.channel]} acessando: ${confirmUrl}\n\nO link expira em 48 horas. Se não foi você, ignore este email.`,
+    })
+
+    return consent
+}
+
+export async function confirmConsent(token: string, client: ClientInfo) {
+    const consent = await prisma.userConsent.findUnique({
+        where: { confirmationTokenHash: hashToken(token) },
+    })
+
+    if (!consent || consent.status !== "PENDING" || !consent.confirmationExpiresAt || consent.confirmationExpiresAt < new Date()) {
+        throw new HttpError(400, "Link de confirmação inválido ou expirado")
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const updatedConsent = await tx.userConsent.update({
+            where: { id: consent.id },
+            data: {
+                status: "GRANTED",
+                grantedAt: new Date(),
+                withdrawnAt: null,
+                confirmationTokenHash: null,
+                confirmationExpiresAt: null,
+            },
+        })
+        await appendRecord(tx, consent.userId, consent, "GRANTED", "confirmation_link", client)
+        await syncMarketingFlag(consent.userId, tx)
+        return updatedConsent
+    })
+}
+
+export async function withdrawConsent(userId: string, scope: ConsentScope, source: string, client: ClientInfo) {
+    const consent = await prisma.userConsent.findUnique({
+        where: { userId_channel_purpose: { userId, ...scope } },
+    })
+    if (consent?.status === "WITHDRAWN") {
+        return consent
+    }
+
+    // Clientes que consentiram antes do histórico não têm registro; a revogação cria o registro e limpa o flag legado
+    return prisma.$transaction(async (tx) => {
+        const data = {
+            status: "WITHDRAWN" as const,
+            withdrawnAt: new Date(),
+            confirmationTokenHash: null,
+            confirmationExpiresAt: null,
+        }
+        const updatedConsent = await tx.userConsent.upsert({
+            where: { userId_channel_purpose: { userId, ...scope } },
+            create: { userId, ...scope, ...data },
+            update: data,
+        })
+        await appendRecord(tx, userId, scope, "WITHDRAWN", source, client)
+        await syncMarketingFlag(userId, tx)
+        return updatedConsent
+    })
+}
+
+/**
+ * Descadastro pelo link das campanhas. Links repetidos continuam respondendo com sucesso.
+ */
+export async function unsubscribe(token: string, client: ClientInfo) {
+    const parsed = parseUnsubscribeToken(token)
+    if (!parsed) {
+        throw new HttpError(400, "Link de descadastro inválido")
+    }
+
+    const { userId, ...scope } = parsed
+    await withdrawConsent(userId, scope, "unsubscribe_link", client)
+    return scope
+}
+
+export async function getUserConsents(userId: string) {
+    const [consents, history] = await Promise.all([
+        prisma.userConsent.findMany({
+            where: { userId },
+            select: { channel: true, purpose: true, status: true, grantedAt: true, withdrawnAt: true, updatedAt: true },
+        }),
+        prisma.consentRecord.findMany({
+            where: { userId },
+            orderBy: { createdAt: "desc" },
+            select: { channel: true, purpose: true, action: true, source: true, ip: true, createdAt: true },
+        }),
+    ])
+
+    return { consents, history }
+}
+
+function consentingCustomersWhere(scope: ConsentScope): Prisma.UserConsentWhereInput {
+    return {
+        ...scope,
+        status: "GRANTED",
+        user: { role: "CUSTOMER", status: "ACTIVE" },
+    }
+}
+
+const consentingCustomerSelect = {
+    grantedAt: true,
+    user: {
+        select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+        },
+    },
+}
+
+export async function getConsentingCustomers(filters: ConsentingCustomersFilters) {
+    const { channel, purpose, page = 1, limit = 50 } = filters
+    const where = consentingCustomersWhere({ channel, purpose })
+
+    const [total, consents] = await Promise.all([
+        prisma.userConsent.count({ where }),
+        prisma.userConsent.findMany({
+            where,
+            orderBy: { grantedAt: "asc" },
+            skip: (page - 1) * limit,
+            take: limit,
+            select: consentingCustomerSelect,
+        }),
+    ])
+
+    return {
+        data: consents.map(({ user, grantedAt }) => ({
+            ...user,
+            grantedAt,
+            unsubscribeUrl: getUnsubscribeUrl(user.id, { channel, purpose }),
+        })),
+        pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        },
+    }
+}
+
+/**
+ * Exporta em CSV os clientes com consentimento confirmado, já com o link de descadastro de cada um
+ */
+export async function exportConsentingCustomers(scope: ConsentScope) {
+    const consents = await prisma.userConsent.findMany({
+        where: consentingCustomersWhere(scope),
+        orderBy: { grantedAt: "asc" },
+        take: EXPORT_LIMIT,
+        select: consentingCustomerSelect,
+    })
+
+    const header = ["id", "name", "email", "phone", "grantedAt", "unsubscribeUrl"]
+    const rows = consents.map(({ user, grantedAt }) => [
+        user.id,
+        user.name,
+        user.email,
+        user.phone,
+        grantedAt,
+        getUnsubscribeUrl(user.id, scope),
+    ])
+
+    return toCsv(header, rows)
+}
+
+export const consentService = {
+    createUnsubscribeToken,
+    requestConsent,
+    confirmConsent,
+    withdrawConsent,
+    unsubscribe,
+    getUserConsents,
+    getConsentingCustomers,
+    exportConsentingCustomers,
+}
+
+export default consentService
@@ -0,0 +1,293 @@
+import { Prisma } from "@prisma/client"
+import type { User } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { toCsv } from "../../../lib/csv"
+import { CustomerSegmentRules, customerSegmentRulesSchema } from "../../../lib/zodschemas/customer-segment"
+import { recordAudit } from "./audit"
+import { getUnsubscribeUrl } from "./consent"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const EXPORT_LIMIT = 50000
+const CAMPAIGN_CONSENT_SCOPE = { channel: "EMAIL", purpose: "MARKETING" } as const
+
+type CustomerSegmentCreateDTO = {
+    name: string
+    description?: string
+    rules: CustomerSegmentRules
+}
+
+type CustomerSegmentUpdateDTO = Partial<CustomerSegmentCreateDTO>
+
+type SegmentMembersFilters = {
+    page?: number
+    limit?: number
+}
+
+const customerSegmentSelect = {
+    id: true,
+    name: true,
+    description: true,
+    rules: true,
+    createdAt: true,
+    updatedAt: true,
+    createdBy: {
+        select: {
+            id: true,
+            name: true,
+        },
+    },
+}
+
+type SegmentMember = {
+    id: string
+    name: string
+    email: string
+    phone: string | null
+    birthDate: Date | null
+    marketingConsent: boolean
+    totalSpent: Prisma.Decimal
+    lastPurchase: Date | null
+    orderCount: number
+}
+
+// Pedidos válidos para as regras do segmento, sempre com o alias "o"
+const validOrderSql = Prisma.sql`o."status" <> 'CANCELED'`
+
+const orderCountSql = Prisma.sql`(SELECT COUNT(*)::int FROM "Order" o WHERE o."userId" = u."id" AND ${validOrderSql})`
+
+const campaignConsentSql = Prisma.sql`EXISTS (
+    SELECT 1 FROM "UserConsent" c
+    WHERE c."userId" = u."id"
+      AND c."channel"::text = ${CAMPAIGN_CONSENT_SCOPE.channel}
+      AND c."purpose"::text = ${CAMPAIGN_CONSENT_SCOPE.purpose}
+      AND c."status" = 'GRANTED'
+)`
+
+/**
+ * Traduz as regras do segmento para uma condição SQL sobre o cliente (alias "u"). As regras sobre pedidos são
+ * subconsultas, para que o segmento seja resolvido em uma única consulta mesmo em lojas com muitos clientes.
+ */
+function segmentWhere(rules: CustomerSegmentRules): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [
+        Prisma.sql`u."role" = 'CUSTOMER'`,
+        Prisma.sql`u."status" = 'ACTIVE'`,
+        Prisma.sql`u."anonymizedAt" IS NULL`,
+    ]
+
+    if (rules.totalSpent?.min !== undefined) {
+        conditions.push(Prisma.sql`u."totalSpent" >= ${rules.totalSpent.min}`)
+    }
+    if (rules.totalSpent?.max !== undefined) {
+        conditions.push(Prisma.sql`u."totalSpent" <= ${rules.totalSpent.max}`)
+    }
+
+    if (rules.lastPurchase?.withinDays) {
+        conditions.push(Prisma.sql`u."lastPurchase" >= ${new Date(Date.now() - rules.lastPurchase.withinDays * DAY_MS)}`)
+    } else if (rules.lastPurchase?.olderThanDays) {
+        conditions.push(Prisma.sql`u."lastPurchase" < ${new Date(Date.now() - rules.lastPurchase.olderThanDays * DAY_MS)}`)
+    } else if (rules.lastPurchase?.never) {
+        conditions.push(Prisma.sql`u."lastPurchase" IS NULL`)
+    }
+
+    if (rules.categories) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "Order" o
+            JOIN "OrderItem" i ON i."orderId" = o."id"
+            JOIN "Product" p ON p."id" = i."productId"
+            WHERE o."userId" = u."id" AND ${validOrderSql} AND p."category" IN (${Prisma.join(rules.categories)})
+        )`)
+    }
+
+    if (rules.materials) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "Order" o
+            JOIN "OrderItem" i ON i."orderId" = o."id"
+            JOIN "ProductMaterial" m ON m."productId" = i."productId"
+            WHERE o."userId" = u."id" AND ${validOrderSql} AND m."type"::text IN (${Prisma.join(rules.materials)})
+        )`)
+    }
+
+    if (rules.orderCount?.min !== undefined) {
+        conditions.push(Prisma.sql`${orderCountSql} >= ${rules.orderCount.min}`)
+    }
+    if (rules.orderCount?.max !== undefined) {
+        conditions.push(Prisma.sql`${orderCountSql} <= ${rules.orderCount.max}`)
+    }
+
+    if (rules.birthMonths) {
+        conditions.push(Prisma.sql`EXTRACT(MONTH FROM u."birthDate") IN (${Prisma.join(rules.birthMonths)})`)
+    }
+
+    if (rules.marketingConsent !== undefined) {
+        conditions.push(Prisma.sql`u."marketingConsent" = ${rules.marketingConsent}`)
+    }
+
+    return Prisma.join(conditions, " AND ")
+}
+
+async function countSegmentMembers(where: Prisma.Sql) {
+    const [{ count }] = await prisma.$queryRaw<{ count: number }[]>`
+        SELECT COUNT(*)::int AS "count" FROM "User" u WHERE ${where}
+    `
+    return count
+}
+
+async function findSegmentMembers(where: Prisma.Sql, skip: number, take: number) {
+    return prisma.$queryRaw<SegmentMember[]>`
+        SELECT u."id", u."name", u."email", u."phone", u."birthDate", u."marketingConsent", u."totalSpent", u."lastPurchase",
+               ${orderCountSql} AS "orderCount"
+        FROM "User" u
+        WHERE ${where}
+        ORDER BY u."totalSpent" DESC, u."name" ASC
+        LIMIT ${take} OFFSET ${skip}
+    `
+}
+
+async function getSegmentOrThrow(id: string) {
+    const segment = await prisma.customerSegment.findUnique({
+        where: { id },
+        select: customerSegmentSelect,
+    })
+    if (!segment) {
+        throw new HttpError(404, "Segmento não encontrado")
+    }
+    return { ...segment, rules: customerSegmentRulesSchema.parse(segment.rules) }
+}
+
+async function assertNameAvailable(name: string, exceptId?: string) {
+    const existing = await prisma.customerSegment.findUnique({
+        where: { name },
+        select: { id: true },
+    })
+    if (existing && existing.id !== exceptId) {
+        throw new HttpError(409, "Já existe um segmento com este nome")
+    }
+}
+
+export async function listSegments() {
+    return prisma.customerSegment.findMany({
+        orderBy: { name: "asc" },
+        select: customerSegmentSelect,
+    })
+}
+
+/**
+ * Retorna o segmento com a contagem de membros calculada no momento da consulta
+ */
+export async function getSegment(id: string) {
+    const segment = await getSegmentOrThrow(id)
+    const memberCount = await countSegmentMembers(segmentWhere(segment.rules))
+    return { ...segment, memberCount }
+}
+
+export async function createSegment(creator: User, data: CustomerSegmentCreateDTO) {
+    await assertNameAvailable(data.name)
+
+    const segment = await prisma.customerSegment.create({
+        data: {
+            name: data.name,
+            description: data.description,
+            rules: data.rules,
+            createdById: creator.id,
+        },
+        select: customerSegmentSelect,
+    })
+    await recordAudit({ action: "CREATE", entityType: "CustomerSegment", entityId: segment.id, after: segment })
+
+    return segment
+}
+
+export async function updateSegment(id: string, data: CustomerSegmentUpdateDTO) {
+    const segment = await getSegmentOrThrow(id)
+    if (data.name && data.name !== segment.name) {
+        await assertNameAvailable(data.name, id)
+    }
+
+    const updatedSegment = await prisma.customerSegment.update({
+        where: { id },
+        data: {
+            name: data.name,
+            description: data.description,
+            rules: data.rules,
+        },
+        select: customerSegmentSelect,
+    })
+    await recordAudit({ action: "UPDATE", entityType: "CustomerSegment", entityId: id, before: segment, after: updatedSegment })
+
+    return updatedSegment
+}
+
+export async function deleteSegment(id: string) {
+    const segment = await getSegmentOrThrow(id)
+    await prisma.customerSegment.delete({ where: { id } })
+    await recordAudit({ action: "DELETE", entityType: "CustomerSegment", entityId: id, before: segment })
+}
+
+/**
+ * Avalia regras ainda não salvas, para pré-visualizar o tamanho do segmento
+ */
+export async function previewSegment(rules: CustomerSegmentRules) {
+    const memberCount = await countSegmentMembers(segmentWhere(rules))
+    return { memberCount }
+}
+
+export async function getSegmentMembers(id: string, filters: SegmentMembersFilters) {
+    const { page = 1, limit = 50 } = filters
+    const segment = await getSegmentOrThrow(id)
+    const where = segmentWhere(segment.rules)
+    const [total, members] = await Promise.all([
+        countSegmentMembers(where),
+        findSegmentMembers(where, (page - 1) * limit, limit),
+    ])
+
+    return {
+        data: members,
+        pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        },
+    }
+}
+
+/**
+ * Exporta em CSV, para uso em campanhas, apenas os membros com consentimento de marketing por email ativo
+ */
+export async function exportSegmentMembers(id: string) {
+    const segment = await getSegmentOrThrow(id)
+    const members = await findSegmentMembers(
+        Prisma.sql`${segmentWhere(segment.rules)} AND ${campaignConsentSql}`,
+        0,
+        EXPORT_LIMIT,
+    )
+
+    const header = ["id", "name", "email", "phone", "birthDate", "totalSpent", "orderCount", "lastPurchase", "unsubscribeUrl"]
+    const rows = members.map((member) => [
+        member.id,
+        member.name,
+        member.email,
+        member.phone,
+        member.birthDate,
+        member.totalSpent.toFixed(2),
+        member.orderCount,
+        member.lastPurchase,
+        getUnsubscribeUrl(member.id, CAMPAIGN_CONSENT_SCOPE),
+    ])
+
+    return toCsv(header, rows)
+}
+
+export const customerSegmentService = {
+    listSegments,
+    getSegment,
+    createSegment,
+    updateSegment,
+    deleteSegment,
+    previewSegment,
+    getSegmentMembers,
+    exportSegmentMembers,
+}
+
+export default customerSegmentService
@@ -1,5 +1,6 @@
 
 import { prisma } from "../../../prisma/prisma"
+import { getAvailableStock } from "./stock-reservation"
 
 export async function getStats(startDate?: string, endDate?: string) {
     try {
@@ -246,6 +247,7 @@ export async function getInventory(lowStockOnly = false) {
                 name: true,
                 sku: true,
                 stock: true,
+                reservedStock: true,
                 category: true,
                 price: true,
                 _count: {
@@ -291,6 +293,8 @@ export async function getInventory(lowStockOnly = false) {
                 name: product.name,
                 sku: product.sku,
                 stock: product.stock,
+                reservedStock: product.reservedStock,
+                availableStock: getAvailableStock(product),
                 category: product.category,
                 price: product.price,
                 value: product.price ? product.price : 0 * product.stock,
@@ -299,7 +303,8 @@ export async function getInventory(lowStockOnly = false) {
             categories: Array.from(categoryCounts.values()),
             totalProducts: products.length,
             totalValue: totalInventoryValue,
-            lowStockCount: products.filter((p) => p.stock < 10).length,
+            totalReserved: products.reduce((sum, product) => sum + product.reservedStock, 0),
+            lowStockCount: products.filter((p) => getAvailableStock(p) < 10).length,
         }
     } catch (error) {
         console.error("Erro ao buscar status do inventário:", error)
@@ -0,0 +1,428 @@
+import { Prisma, type DataErasureStatus, type User } from "@prisma/client"
+import bcrypt from "bcryptjs"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { generateToken } from "../../../lib/tokens"
+import { recordAudit } from "./audit"
+
+const EXPORT_FORMAT = "metamorfosis-lgpd-export/v1"
+const OPEN_ORDER_STATUSES = ["PENDING", "PROCESSING", "SHIPPED"] as const
+const REMOVED_TEXT = "[removido a pedido do titular]"
+const AUDIT_PII_FIELDS = ["name", "email", "phone", "document", "birthDate", "avatar", "notes", "googleId"]
+
+const erasureRequestInclude = {
+    user: {
+        select: {
+            id: true,
+            name: true,
+            email: true,
+        },
+    },
+    reviewedBy: {
+        select: {
+            id: true,
+            name: true,
+        },
+    },
+}
+
+/**
+ * Reúne todos os dados pessoais vinculados ao usuário em um formato legível por máquina
+ */
+export async function exportUserData(userId: string) {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+            document: true,
+            birthDate: true,
+            avatar: true,
+            role: true,
+            status: true,
+            emailVerified: true,
+            marketingConsent: true,
+            googleId: true,
+            twoFactorEnabled: true,
+            totalSpent: true,
+            lastPurchase: true,
+            loyaltyPoints: true,
+            lastLogin: true,
+            createdAt: true,
+            updatedAt: true,
+        },
+    })
+
+    if (!user) {
+        return null
+    }
+
+    const [
+        addresses,
+        orders,
+        reviews,
+        supportTickets,
+        sessions,
+        loginAttempts,
+        consents,
+        consentHistory,
+        erasureRequests,
+        loyaltyTransactions,
+    ] = await Promise.all([
+        prisma.address.findMany({ where: { userId } }),
+        prisma.order.findMany({
+            where: { userId },
+            orderBy: { createdAt: "asc" },
+            include: {
+                items: {
+                    include: {
+                        product: { select: { id: true, name: true, sku: true } },
+                    },
+                },
+                billingAddress: true,
+                shippingAddress: true,
+            },
+        }),
+        prisma.productReview.findMany({
+            where: { userId },
+            include: { product: { select: { id: true, name: true } } },
+        }),
+        prisma.supportTicket.findMany({
+            where: { userId },
+            include: { messages: { orderBy: { createdAt: "asc" } } },
+        }),
+        prisma.session.findMany({
+            where: { userId, impersonatorId: null },
+            select: { id: true, ip: true, userAgent: true, lastSeenAt: true, expiresAt: true, revokedAt: true, createdAt: true },
+        }),
+        prisma.loginAttempt.findMany({
+            where: { email: user.email },
+            select: { ip: true, success: true, createdAt: true },
+        }),
+        prisma.userConsent.findMany({
+            where: { userId },
+            select: { channel: true, purpose: true, status: true, grantedAt: true, withdrawnAt: true },
+        }),
+        prisma.consentRecord.findMany({
+            where: { userId },
+            orderBy: { createdAt: "asc" },
+            select: { channel: true, purpose: true, action: true, source: true, ip: true, userAgent: true, createdAt: true },
+        }),
+        prisma.dataErasureRequest.findMany({
+            where: { userId },
+            select: { id: true, status: true, reason: true, reviewedAt: true, createdAt: true },
+        }),
+        prisma.loyaltyTransaction.findMany({
+            where: { userId },
+            orderBy: { createdAt: "asc" },
+            select: { type: true, points: true, orderId: true, expiresAt: true, createdAt: true },
+        }),
+    ])
+
+    return {
+        format: EXPORT_FORMAT,
+        exportedAt: new Date(),
+        user,
+        addresses,
+        orders,
+        reviews,
+        supportTickets,
+        sessions,
+        loginAttempts,
+        consents,
+        consentHistory,
+        erasureRequests,
+        loyaltyTransactions,
+    }
+}
+
+/**
+ * Abre uma solicitação de exclusão de dados, que fica pendente até a análise de um funcionário
+ */
+export async function requestErasure(user: User, reason?: string) {
+    if (user.role !== "CUSTOMER") {
+        throw new HttpError(403, "Solicitações de exclusão estão disponíveis apenas para clientes")
+    }
+
+    const pendingRequest = await prisma.dataErasureRequest.findFirst({
+        where: { userId: user.id, status: "PENDING" },
+    })
+    if (pendingRequest) {
+        throw new HttpError(409, "Já existe uma solicitação de exclusão pendente")
+    }
+
+    return prisma.dataErasureRequest.create({
+        data: {
+            userId: user.id,
+            reason,
+        },
+    })
+}
+
+export async function getUserErasureRequests(userId: string) {
+    return prisma.dataErasureRequest.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+    })
+}
+
+export async function getErasureRequests(filters: { status?: DataErasureStatus; page?: number; limit?: number }) {
+    const { status, page = 1, limit = 20 } = filters
+    const where = status ? { status } : {}
+
+    const [total, requests] = await Promise.all([
+        prisma.dataErasureRequest.count({ where }),
+        prisma.dataErasureRequest.findMany({
+            where,
+            orderBy: { createdAt: "asc" },
+            skip: (page - 1) * limit,
+            take: limit,
+            include: erasureRequestInclude,
+        }),
+    ])
+
+    return {
+        data: requests,
+        pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        },
+    }
+}
+
+async function findPendingRequest(id: string) {
+    const request = await prisma.dataErasureRequest.findUnique({
+        where: { id },
+    })
+
+    if (!request) {
+        return null
+    }
+
+    if (request.status !== "PENDING") {
+        throw new HttpError(409, "Solicitação já foi analisada")
+    }
+
+    return request
+}
+
+/**
+ * Encerra a análise apenas se a solicitação ainda estiver pendente, para que duas análises simultâneas
+ * não processem a mesma solicitação
+ */
+async function closePendingRequest(
+    id: string,
+    data: { status: DataErasureStatus; reviewedById: string; reviewNotes?: string },
+    tx: Prisma.TransactionClient,
+) {
+    const { count } = await tx.dataErasureRequest.updateMany({
+        where: { id, status: "PENDING" },
+        data: { ...data, reviewedAt: new Date() },
+    })
+    if (count === 0) {
+        throw new HttpError(409, "Solicitação já foi analisada")
+    }
+
+    return tx.dataErasureRequest.findUniqueOrThrow({
+        where: { id },
+        include: erasureRequestInclude,
+    })
+}
+
+function withoutPii(value: Prisma.JsonValue | null) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return value ?? Prisma.DbNull
+    }
+    const scrubbed: Prisma.JsonObject = { ...value }
+    for (const field of AUDIT_PII_FIELDS) {
+        if (field in scrubbed) {
+            scrubbed[field] = REMOVED_TEXT
+        }
+    }
+    return scrubbed
+}
+
+/**
+ * Remove os dados pessoais copiados para o histórico de alterações do titular, mantendo o registro das ações
+ */
+async function scrubUserAuditLogs(userId: string, tx: Prisma.TransactionClient) {
+    const logs = await tx.auditLog.findMany({
+        where: { entityType: "User", entityId: userId },
+        select: { id: true, before: true, after: true },
+    })
+
+    for (const log of logs) {
+        await tx.auditLog.update({
+            where: { id: log.id },
+            data: { before: withoutPii(log.before), after: withoutPii(log.after) },
+        })
+    }
+}
+
+/**
+ * Aprova a solicitação e anonimiza os dados pessoais do titular. Pedidos são mantidos para fins fiscais, apenas
+ * desvinculados das informações identificáveis.
+ */
+export async function approveErasureRequest(id: string, reviewer: User, notes?: string) {
+    const request = await findPendingRequest(id)
+    if (!request) {
+        return null
+    }
+
+    const openOrders = await prisma.order.count({
+        where: { userId: request.userId, status: { in: [...OPEN_ORDER_STATUSES] } },
+    })
+    if (openOrders > 0) {
+        throw new HttpError(409, "O titular possui pedidos em andamento", { openOrders })
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+        where: { id: request.userId },
+    })
+    const password = await bcrypt.hash(generateToken(), 12)
+
+    return prisma.$transaction(async (tx) => {
+        const updatedRequest = await closePendingRequest(
+            id,
+            { status: "COMPLETED", reviewedById: reviewer.id, reviewNotes: notes },
+            tx,
+        )
+
+        const orderAddressIds = (
+            await tx.order.findMany({
+                where: { userId: user.id },
+                select: { billingAddressId: true, shippingAddressId: true },
+            })
+        ).flatMap((order) => [order.billingAddressId, order.shippingAddressId])
+
+        await tx.address.deleteMany({
+            where: { userId: user.id, id: { notIn: orderAddressIds } },
+        })
+        await tx.address.updateMany({
+            where: { userId: user.id },
+            data: {
+                street: REMOVED_TEXT,
+                number: "",
+                complement: null,
+                neighborhood: REMOVED_TEXT,
+                isDefault: false,
+            },
+        })
+        await tx.order.updateMany({
+            where: { userId: user.id },
+            data: { notes: null },
+        })
+        await tx.productReview.updateMany({
+            where: { userId: user.id },
+            data: { title: null, content: REMOVED_TEXT, images: [] },
+        })
+        await tx.supportTicket.updateMany({
+            where: { userId: user.id },
+            data: { subject: REMOVED_TEXT },
+        })
+        await tx.supportMessage.updateMany({
+            where: { ticket: { userId: user.id }, sender: "CUSTOMER" },
+            data: { content: REMOVED_TEXT, attachments: Prisma.DbNull },
+        })
+
+        await tx.session.deleteMany({ where: { userId: user.id } })
+        await tx.passwordReset.deleteMany({ where: { userId: user.id } })
+        await tx.emailVerification.deleteMany({ where: { userId: user.id } })
+        await tx.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } })
+        await tx.twoFactorChallenge.deleteMany({ where: { userId: user.id } })
+        await tx.loginAttempt.deleteMany({ where: { email: user.email } })
+        await tx.passwordHistory.deleteMany({ where: { userId: user.id } })
+        await tx.userConsent.updateMany({
+            where: { userId: user.id, status: { not: "WITHDRAWN" } },
+            data: { status: "WITHDRAWN", withdrawnAt: new Date(), confirmationTokenHash: null, confirmationExpiresAt: null },
+        })
+        await tx.consentRecord.updateMany({
+            where: { userId: user.id },
+            data: { ip: null, userAgent: null },
+        })
+
+        await tx.user.update({
+            where: { id: user.id },
+            data: {
+                name: "Usuário removido",
+                email: `removido+${user.id}@anonimizado.invalid`,
+                phone: null,
+                document: null,
+                birthDate: null,
+                avatar: null,
+                notes: null,
+                password,
+                googleId: null,
+                emailVerified: false,
+                marketingConsent: false,
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorLastUsedStep: null,
+                status: "INACTIVE",
+                anonymizedAt: new Date(),
+            },
+        })
+
+        await scrubUserAuditLogs(user.id, tx)
+
+        // Os dados pessoais não são copiados para o log, apenas o fato de que foram anonimizados
+        await recordAudit(
+            { action: "UPDATE", entityType: "User", entityId: user.id, before: { anonymized: false }, after: { anonymized: true } },
+            tx,
+        )
+        await recordAudit(
+            {
+                action: "UPDATE",
+                entityType: "DataErasureRequest",
+                entityId: id,
+                before: { status: request.status },
+                after: { status: updatedRequest.status, reviewNotes: notes ?? null },
+            },
+            tx,
+        )
+
+        return updatedRequest
+    })
+}
+
+export async function rejectErasureRequest(id: string, reviewer: User, notes: string) {
+    const request = await findPendingRequest(id)
+    if (!request) {
+        return null
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const updatedRequest = await closePendingRequest(
+            id,
+            { status: "REJECTED", reviewedById: reviewer.id, reviewNotes: notes },
+            tx,
+        )
+        await recordAudit(
+            {
+                action: "UPDATE",
+                entityType: "DataErasureRequest",
+                entityId: id,
+                before: { status: request.status },
+                after: { status: updatedRequest.status, reviewNotes: notes },
+            },
+            tx,
+        )
+
+        return updatedRequest
+    })
+}
+
+export const dataPrivacyService = {
+    exportUserData,
+    requestErasure,
+    getUserErasureRequests,
+    getErasureRequests,
+    approveErasureRequest,
+    rejectErasureRequest,
+}
+
+export default dataPrivacyService
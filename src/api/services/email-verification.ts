@@ -0,0 +1,136 @@
+import type { User } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { generateToken, hashToken } from "../../../lib/tokens"
+import { sendMail } from "../../../lib/mailer"
+import { HttpError } from "../../../lib/http-error"
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+const RESEND_COOLDOWN_MS = 60 * 1000
+const MAX_SENDS_PER_DAY = 5
+
+type VerificationRequirement = "checkout" | "reviews"
+
+/**
+ * Cria um token de verificação e envia o link de confirmação por email
+ */
+export async function sendVerificationEmail(user: Pick<User, "id" | "name" | "email">) {
+    const token = generateToken()
+    await prisma.emailVerification.create({
+        data: {
+            userId: user.id,
+            token: hashToken(token),
+            expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+        },
+    })
+
+    const verifyUrl = `${process.env.FRONTEND_URL ?? ""}/verify-email?token=${token}`
+    await sendMail({
+        to: user.email,
+        subject: "Confirme seu email",
+        text: `Olá ${user.name},\n\nConfirme seu email acessando: ${verifyUrl}\n\nO link expira em 24 horas.`,
+    })
+}
+
+/**
+ * Reenvia o email de verificação respeitando o intervalo mínimo e o limite diário
+ */
+export async function resendVerificationEmail(userId: string) {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+    })
+
+    if (!user) {
+        return null
+    }
+
+    if (user.emailVerified) {
+        throw new HttpError(409, "Email já verificado")
+    }
+
+    const recentSends = await prisma.emailVerification.findMany({
+        where: {
+            userId,
+            createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+        },
+        orderBy: { createdAt: "desc" },
+        select: { createdAt: true },
+    })
+
+    if (recentSends.length >= MAX_SENDS_PER_DAY) {
+        throw new HttpError(429, "Limite diário de reenvios atingido")
+    }
+
+    if (recentSends[0] && Date.now() - recentSends[0].createdAt.getTime() < RESEND_COOLDOWN_MS) {
+        throw new HttpError(429, "Aguarde um minuto antes de solicitar um novo email")
+    }
+
+    await sendVerificationEmail(user)
+    return true
+}
+
+/**
+ * Confirma o email do usuário a partir de um token válido
+ */
+export async function confirmEmail(token: string) {
+    const verification = await prisma.emailVerification.findUnique({
+        where: { token: hashToken(token) },
+    })
+
+    if (!verification || verification.usedAt || verification.expiresAt < new Date()) {
+        throw new HttpError(400, "Token inválido ou expirado")
+    }
+
+    await prisma.$transaction([
+        prisma.emailVerification.updateMany({
+            where: { userId: verification.userId, usedAt: null },
+            data: { usedAt: new Date() },
+        }),
+        prisma.user.update({
+            where: { id: verification.userId },
+            data: { emailVerified: true },
+        }),
+    ])
+}
+
+/**
+ * Bloqueia a ação quando as configurações da loja exigem email verificado
+ */
+export async function assertVerifiedEmail(userId: string, requirement: VerificationRequirement) {
+    const settings = await prisma.storeSettings.findFirst({
+        select: {
+            requireVerifiedEmailForCheckout: true,
+            requireVerifiedEmailForReviews: true,
+        },
+    })
+
+    const required = requirement === "checkout"
+        ? settings?.requireVerifiedEmailForCheckout
+        : settings?.requireVerifiedEmailForReviews
+
+    if (!required) {
+        return
+    }
+
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { emailVerified: true },
+    })
+
+    if (!user?.emailVerified) {
+        throw new HttpError(
+            403,
+            requirement === "checkout"
+                ? "Confirme seu email para finalizar a compra"
+                : "Confirme seu email para avaliar produtos",
+        )
+    }
+}
+
+export const emailVerificationService = {
+    sendVerificationEmail,
+    resendVerificationEmail,
+    confirmEmail,
+    assertVerifiedEmail,
+}
+
+export default emailVerificationService
@@ -0,0 +1,235 @@
+import bcrypt from "bcryptjs"
+import crypto from "crypto"
+import type { User } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { generateToken } from "../../../lib/tokens"
+import { assertLoginAllowed } from "./login-protection"
+
+const STATE_TTL_MS = 10 * 60 * 1000
+const FETCH_TIMEOUT_MS = 10 * 1000
+
+type GoogleProfile = {
+    sub: string
+    email: string
+    email_verified?: boolean
+    name?: string
+    picture?: string
+}
+
+/**
+ * Lê a configuração do provedor. Os endpoints podem ser sobrescritos para apontar para um servidor OAuth de testes.
+ */
+function getGoogleConfig() {
+    const clientId = process.env.GOOGLE_CLIENT_ID
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET
+    const redirectUri = process.env.GOOGLE_REDIRECT_URI
+
+    if (!clientId || !clientSecret || !redirectUri) {
+        throw new HttpError(503, "Login com Google não configurado")
+    }
+
+    return {
+        clientId,
+        clientSecret,
+        redirectUri,
+        authorizationUrl: process.env.GOOGLE_AUTH_URL || "https://accounts.google.com/o/oauth2/v2/auth",
+        tokenUrl: process.env.GOOGLE_TOKEN_URL || "https://oauth2.googleapis.com/token",
+        userInfoUrl: process.env.GOOGLE_USERINFO_URL || "https://openidconnect.googleapis.com/v1/userinfo",
+    }
+}
+
+function signState(payload: string, secret: string) {
+    return crypto.createHmac("sha256", secret).update(payload).digest("hex")
+}
+
+/**
+ * O `state` carrega o nonce guardado em cookie HttpOnly no navegador que iniciou o fluxo e a finalidade:
+ * `signin` para login ou o ID do usuário autenticado que está vinculando a conta
+ */
+function createState(secret: string, nonce: string, subject: string) {
+    const payload = `${nonce}.${Date.now() + STATE_TTL_MS}.${subject}`
+    return `${payload}.${signState(payload, secret)}`
+}
+
+function safeEqual(a: string, b: string) {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+function isValidState(state: string, secret: string, browserNonce: string | null, subject: string) {
+    const [nonce, expiresAt, stateSubject, signature] = state.split(".")
+    if (!nonce || !expiresAt || !stateSubject || !signature || !browserNonce) {
+        return false
+    }
+
+    return safeEqual(signState(`${nonce}.${expiresAt}.${stateSubject}`, secret), signature)
+        && safeEqual(nonce, browserNonce)
+        && stateSubject === subject
+        && Number(expiresAt) > Date.now()
+}
+
+export const GOOGLE_STATE_COOKIE = "google_oauth_state"
+
+export function getStateCookieOptions() {
+    return {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax" as const,
+        maxAge: STATE_TTL_MS,
+        path: "/",
+    }
+}
+
+/**
+ * Monta a URL de autorização com um `state` assinado e com validade curta. O nonce retornado deve ser
+ * gravado no cookie do navegador; sem ele o retorno do Google é recusado.
+ */
+export function getAuthorizationUrl(userId?: string) {
+    const config = getGoogleConfig()
+    const nonce = generateToken(16)
+    const params = new URLSearchParams({
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        response_type: "code",
+        scope: "openid email profile",
+        state: createState(config.clientSecret, nonce, userId ?? "signin"),
+        prompt: "select_account",
+    })
+
+    return { url: `${config.authorizationUrl}?${params.toString()}`, nonce }
+}
+
+async function fetchGoogleProfile(code: string) {
+    const config = getGoogleConfig()
+
+    const tokenResponse = await fetch(config.tokenUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+            code,
+            client_id: config.clientId,
+            client_secret: config.clientSecret,
+            redirect_uri: config.redirectUri,
+            grant_type: "authorization_code",
+        }).toString(),
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    })
+    if (!tokenResponse.ok) {
+        throw new HttpError(401, "Não foi possível autenticar com o Google")
+    }
+    const { access_token: accessToken } = (await tokenResponse.json()) as { access_token?: string }
+    if (!accessToken) {
+        throw new HttpError(401, "Não foi possível autenticar com o Google")
+    }
+
+    const profileResponse = await fetch(config.userInfoUrl, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    })
+    if (!profileResponse.ok) {
+        throw new HttpError(401, "Não foi possível obter o perfil do Google")
+    }
+
+    const profile = (await profileResponse.json()) as GoogleProfile
+    if (!profile.sub || !profile.email) {
+        throw new HttpError(401, "Perfil do Google incompleto")
+    }
+    return profile
+}
+
+function assertActive(user: User) {
+    if (user.status !== "ACTIVE") {
+        throw new HttpError(403, "Conta desativada")
+    }
+}
+
+/**
+ * Troca o código de autorização pelo perfil do Google e entra com o usuário vinculado ou cria um cliente novo.
+ * Só clientes com email já verificado são vinculados pelo email; nos demais casos o vínculo exige uma sessão
+ * autenticada, para que uma conta criada por terceiros com o email da vítima não seja assumida.
+ */
+export async function signInWithGoogle(code: string, state: string, browserNonce: string | null, ip: string | null) {
+    const config = getGoogleConfig()
+    if (!isValidState(state, config.clientSecret, browserNonce, "signin")) {
+        throw new HttpError(400, "Parâmetro state inválido ou expirado")
+    }
+
+    const profile = await fetchGoogleProfile(code)
+    const email = profile.email.toLowerCase()
+    const emailVerified = profile.email_verified === true
+
+    const linkedUser = await prisma.user.findUnique({
+        where: { googleId: profile.sub },
+    })
+    if (linkedUser) {
+        await assertLoginAllowed(linkedUser.email, ip, linkedUser)
+        assertActive(linkedUser)
+        return emailVerified && !linkedUser.emailVerified
+            ? prisma.user.update({ where: { id: linkedUser.id }, data: { emailVerified: true } })
+            : linkedUser
+    }
+
+    const existingUser = await prisma.user.findUnique({
+        where: { email },
+    })
+    if (existingUser) {
+        await assertLoginAllowed(existingUser.email, ip, existingUser)
+        assertActive(existingUser)
+        if (!emailVerified || !existingUser.emailVerified || existingUser.role !== "CUSTOMER") {
+            throw new HttpError(409, "Já existe uma conta com este email. Entre com sua senha para vincular o Google")
+        }
+        return prisma.user.update({
+            where: { id: existingUser.id },
+            data: {
+                googleId: profile.sub,
+                emailVerified: true,
+                avatar: existingUser.avatar ?? profile.picture,
+            },
+        })
+    }
+
+    return prisma.user.create({
+        data: {
+            name: (profile.name || email.split("@")[0]).toLowerCase(),
+            email,
+            password: await bcrypt.hash(generateToken(), 12),
+            googleId: profile.sub,
+            emailVerified,
+            avatar: profile.picture,
+            role: "CUSTOMER",
+        },
+    })
+}
+
+/**
+ * Vincula a conta Google ao usuário autenticado que iniciou o fluxo
+ */
+export async function linkGoogleAccount(userId: string, code: string, state: string, browserNonce: string | null) {
+    const config = getGoogleConfig()
+    if (!isValidState(state, config.clientSecret, browserNonce, userId)) {
+        throw new HttpError(400, "Parâmetro state inválido ou expirado")
+    }
+
+    const profile = await fetchGoogleProfile(code)
+    const linkedUser = await prisma.user.findUnique({
+        where: { googleId: profile.sub },
+    })
+    if (linkedUser && linkedUser.id !== userId) {
+        throw new HttpError(409, "Esta conta Google já está vinculada a outro usuário")
+    }
+
+    await prisma.user.update({
+        where: { id: userId },
+        data: { googleId: profile.sub },
+    })
+}
+
+export const googleOAuthService = {
+    getAuthorizationUrl,
+    signInWithGoogle,
+    linkGoogleAccount,
+}
+
+export default googleOAuthService
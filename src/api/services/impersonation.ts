@@ -0,0 +1,55 @@
+import type { User } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { createImpersonationSession } from "./session"
+import { recordAudit } from "./audit"
+
+type ClientInfo = {
+    ip: string | null
+    userAgent: string | null
+}
+
+/**
+ * Inicia uma sessão em que o funcionário age como o cliente. Contas de funcionários não podem ser personificadas.
+ */
+export async function startImpersonation(impersonator: User, userId: string, client: ClientInfo) {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+    })
+
+    if (!user) {
+        return null
+    }
+
+    if (user.role !== "CUSTOMER") {
+        throw new HttpError(403, "Apenas contas de clientes podem ser personificadas")
+    }
+
+    if (user.status !== "ACTIVE") {
+        throw new HttpError(409, "Conta do cliente está desativada")
+    }
+
+    const { token, session } = await createImpersonationSession(user.id, impersonator.id, client)
+    await recordAudit({
+        action: "CREATE",
+        entityType: "ImpersonationSession",
+        entityId: session.id,
+        after: { userId: user.id, impersonatorId: impersonator.id, expiresAt: session.expiresAt },
+    })
+
+    return {
+        accessToken: token,
+        expiresAt: session.expiresAt,
+        user: {
+            id: user.id,
+            name: user.name,
+            email: user.email,
+        },
+    }
+}
+
+export const impersonationService = {
+    startImpersonation,
+}
+
+export default impersonationService
@@ -0,0 +1,126 @@
+import type { User } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000
+const DELAY_THRESHOLD = 3
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 60 * 1000
+const LOCKOUT_THRESHOLD = 10
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000
+const MAX_FAILURES_PER_IP = 50
+
+function retryAfterSeconds(until: Date) {
+    return Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000))
+}
+
+/**
+ * Impede a tentativa de login quando o IP excedeu o limite, a conta está bloqueada
+ * ou o atraso progressivo desde a última falha ainda não passou.
+ */
+export async function assertLoginAllowed(email: string, ip: string | null, user: User | null) {
+    const windowStart = new Date(Date.now() - FAILURE_WINDOW_MS)
+
+    if (ip) {
+        const ipFailures = await prisma.loginAttempt.count({
+            where: { ip, success: false, createdAt: { gte: windowStart } },
+        })
+        if (ipFailures >= MAX_FAILURES_PER_IP) {
+            throw new HttpError(429, "Muitas tentativas de login. Tente novamente mais tarde", {
+                retryAfter: Math.ceil(FAILURE_WINDOW_MS / 1000),
+            })
+        }
+    }
+
+    if (user?.lockedUntil && user.lockedUntil > new Date()) {
+        throw new HttpError(423, "Conta temporariamente bloqueada por excesso de tentativas", {
+            lockedUntil: user.lockedUntil,
+            retryAfter: retryAfterSeconds(user.lockedUntil),
+        })
+    }
+
+    const recentFailures = await prisma.loginAttempt.findMany({
+        where: { email, success: false, createdAt: { gte: windowStart } },
+        orderBy: { createdAt: "desc" },
+        take: LOCKOUT_THRESHOLD,
+        select: { createdAt: true },
+    })
+
+    if (recentFailures.length >= DELAY_THRESHOLD) {
+        const delay = Math.min(BASE_DELAY_MS * 2 ** (recentFailures.length - DELAY_THRESHOLD), MAX_DELAY_MS)
+        const nextAllowed = new Date(recentFailures[0].createdAt.getTime() + delay)
+        if (nextAllowed > new Date()) {
+            throw new HttpError(429, "Aguarde antes de tentar novamente", {
+                retryAfter: retryAfterSeconds(nextAllowed),
+            })
+        }
+    }
+}
+
+/**
+ * Registra uma falha e bloqueia a conta ao atingir o limite de tentativas consecutivas
+ */
+export async function recordFailedLogin(email: string, ip: string | null, user: User | null) {
+    await prisma.loginAttempt.create({
+        data: { email, ip, success: false },
+    })
+
+    if (!user) {
+        return
+    }
+
+    // Incremento atômico para que falhas simultâneas não se percam
+    const { failedLoginAttempts } = await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true },
+    })
+    if (failedLoginAttempts >= LOCKOUT_THRESHOLD) {
+        await prisma.user.updateMany({
+            where: { id: user.id, failedLoginAttempts: { gte: LOCKOUT_THRESHOLD } },
+            data: {
+                failedLoginAttempts: 0,
+                lockedUntil: new Date(Date.now() + LOCKOUT_DURATION_MS),
+            },
+        })
+    }
+}
+
+export async function recordSuccessfulLogin(email: string, ip: string | null, user: User) {
+    await prisma.$transaction([
+        prisma.loginAttempt.create({
+            data: { email, ip, success: true },
+        }),
+        prisma.loginAttempt.deleteMany({
+            where: { email, success: false },
+        }),
+        prisma.user.update({
+            where: { id: user.id },
+            data: { failedLoginAttempts: 0, lockedUntil: null },
+        }),
+    ])
+}
+
+/**
+ * Remove o bloqueio e o histórico de falhas de uma conta
+ */
+export async function clearLockout(user: Pick<User, "id" | "email">) {
+    await prisma.$transaction([
+        prisma.loginAttempt.deleteMany({
+            where: { email: user.email, success: false },
+        }),
+        prisma.user.update({
+            where: { id: user.id },
+            data: { failedLoginAttempts: 0, lockedUntil: null },
+        }),
+    ])
+}
+
+export const loginProtectionService = {
+    assertLoginAllowed,
+    recordFailedLogin,
+    recordSuccessfulLogin,
+    clearLockout,
+}
+
+export default loginProtectionService
@@ -0,0 +1,281 @@
+import type { Order, Prisma } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import {
+    calculateEarnedPoints,
+    calculateRedemptionDiscount,
+    getLoyaltyTier,
+    getMaxRedeemablePoints,
+    resolveLoyaltySettings,
+} from "../../../lib/loyalty"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const EXPIRING_SOON_DAYS = 30
+
+type LoyaltyClient = Prisma.TransactionClient
+
+type StatementFilters = {
+    page?: number
+    limit?: number
+}
+
+export async function getLoyaltySettings(client: LoyaltyClient = prisma) {
+    const settings = await client.storeSettings.findFirst({
+        select: { loyaltySettings: true },
+    })
+    return resolveLoyaltySettings(settings?.loyaltySettings)
+}
+
+function getExpiryDate(expiryDays: number) {
+    return new Date(Date.now() + expiryDays * DAY_MS)
+}
+
+/**
+ * Baixa os créditos vencidos do usuário, registrando a expiração no extrato
+ */
+export async function expirePoints(userId: string, client: LoyaltyClient = prisma) {
+    const expiredCredits = await client.loyaltyTransaction.findMany({
+        where: { userId, remainingPoints: { gt: 0 }, expiresAt: { lte: new Date() } },
+        select: { id: true, remainingPoints: true },
+    })
+    const expiredPoints = expiredCredits.reduce((sum, credit) => sum + credit.remainingPoints, 0)
+    if (expiredPoints === 0) {
+        return 0
+    }
+
+    await client.loyaltyTransaction.updateMany({
+        where: { id: { in: expiredCredits.map((credit) => credit.id) } },
+        data: { remainingPoints: 0 },
+    })
+    await client.loyaltyTransaction.create({
+        data: { userId, type: "EXPIRATION", points: -expiredPoints },
+    })
+    await client.user.update({
+        where: { id: userId },
+        data: { loyaltyPoints: { decrement: expiredPoints } },
+    })
+
+    return expiredPoints
+}
+
+/**
+ * Consome créditos do mais antigo para o mais novo
+ */
+async function consumeCredits(userId: string, points: number, client: LoyaltyClient) {
+    const credits = await client.loyaltyTransaction.findMany({
+        where: { userId, remainingPoints: { gt: 0 } },
+        orderBy: [{ expiresAt: "asc" }, { createdAt: "asc" }],
+        select: { id: true, remainingPoints: true },
+    })
+
+    let pending = points
+    for (const credit of credits) {
+        if (pending === 0) {
+            break
+        }
+        const consumed = Math.min(credit.remainingPoints, pending)
+        await client.loyaltyTransaction.update({
+            where: { id: credit.id },
+            data: { remainingPoints: { decrement: consumed } },
+        })
+        pending -= consumed
+    }
+}
+
+/**
+ * Resgata pontos como desconto em um pedido. Deve ser chamado dentro da transação de criação do pedido.
+ */
+export async function redeemPoints(userId: string, points: number, subtotal: number, client: LoyaltyClient) {
+    const settings = await getLoyaltySettings(client)
+    if (!settings.enabled) {
+        throw new HttpError(400, "Programa de fidelidade desativado")
+    }
+
+    const maxPoints = getMaxRedeemablePoints(subtotal, settings)
+    if (points > maxPoints) {
+        throw new HttpError(400, "Quantidade de pontos acima do limite permitido para este pedido", { maxPoints })
+    }
+
+    await expirePoints(userId, client)
+
+    // Débito condicional evita saldo negativo em resgates concorrentes
+    const { count } = await client.user.updateMany({
+        where: { id: userId, loyaltyPoints: { gte: points } },
+        data: { loyaltyPoints: { decrement: points } },
+    })
+    if (count === 0) {
+        throw new HttpError(409, "Saldo de pontos insuficiente")
+    }
+    await consumeCredits(userId, points, client)
+
+    return calculateRedemptionDiscount(points, settings)
+}
+
+/**
+ * Registra o débito do resgate no extrato, depois que o pedido foi criado
+ */
+export async function recordRedemption(order: Pick<Order, "id" | "userId" | "pointsRedeemed">, client: LoyaltyClient) {
+    await client.loyaltyTransaction.create({
+        data: { userId: order.userId, orderId: order.id, type: "REDEEM", points: -order.pointsRedeemed },
+    })
+}
+
+/**
+ * Credita os pontos de um pedido entregue, conforme o nível do cliente. Pedidos já pontuados são ignorados.
+ */
+export async function earnOrderPoints(order: Pick<Order, "id" | "userId" | "total">, client: LoyaltyClient) {
+    const settings = await getLoyaltySettings(client)
+    if (!settings.enabled) {
+        return null
+    }
+
+    const existing = await client.loyaltyTransaction.findUnique({
+        where: { orderId_type: { orderId: order.id, type: "EARN" } },
+    })
+    if (existing) {
+        return null
+    }
+
+    const user = await client.user.findUniqueOrThrow({
+        where: { id: order.userId },
+        select: { totalSpent: true },
+    })
+    const points = calculateEarnedPoints(order.total.toNumber(), user.totalSpent.toNumber(), settings)
+    if (points === 0) {
+        return null
+    }
+
+    await client.user.update({
+        where: { id: order.userId },
+        data: { loyaltyPoints: { increment: points } },
+    })
+    return client.loyaltyTransaction.create({
+        data: {
+            userId: order.userId,
+            orderId: order.id,
+            type: "EARN",
+            points,
+            remainingPoints: points,
+            expiresAt: getExpiryDate(settings.expiryDays),
+        },
+    })
+}
+
+/**
+ * Desfaz a movimentação de pontos de um pedido cancelado ou reembolsado: estorna o que ainda resta dos pontos ganhos
+ * (a parte já resgatada ou vencida não é cobrada de volta) e devolve os pontos resgatados com nova validade
+ */
+export async function reverseOrderPoints(orderId: string, client: LoyaltyClient) {
+    const transactions = await client.loyaltyTransaction.findMany({
+        where: { orderId },
+    })
+    const earn = transactions.find((transaction) => transaction.type === "EARN")
+    const redeem = transactions.find((transaction) => transaction.type === "REDEEM")
+    const alreadyReversed = transactions.some((transaction) => transaction.type === "REVERSAL")
+    const alreadyRestored = transactions.some((transaction) => transaction.type === "RESTORE")
+
+    if (earn && !alreadyReversed) {
+        await client.loyaltyTransaction.update({
+            where: { id: earn.id },
+            data: { remainingPoints: 0 },
+        })
+        await client.loyaltyTransaction.create({
+            data: { userId: earn.userId, orderId, type: "REVERSAL", points: -earn.remainingPoints },
+        })
+        await client.user.update({
+            where: { id: earn.userId },
+            data: { loyaltyPoints: { decrement: earn.remainingPoints } },
+        })
+    }
+
+    if (redeem && !alreadyRestored) {
+        const settings = await getLoyaltySettings(client)
+        const points = -redeem.points
+        await client.loyaltyTransaction.create({
+            data: {
+                userId: redeem.userId,
+                orderId,
+                type: "RESTORE",
+                points,
+                remainingPoints: points,
+                expiresAt: getExpiryDate(settings.expiryDays),
+            },
+        })
+        await client.user.update({
+            where: { id: redeem.userId },
+            data: { loyaltyPoints: { increment: points } },
+        })
+    }
+}
+
+/**
+ * Extrato do cliente: saldo, nível atual, pontos a vencer e movimentações paginadas
+ */
+export async function getStatement(userId: string, filters: StatementFilters) {
+    const { page = 1, limit = 20 } = filters
+    await prisma.$transaction((tx) => expirePoints(userId, tx))
+
+    const settings = await getLoyaltySettings()
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { loyaltyPoints: true, totalSpent: true },
+    })
+    if (!user) {
+        return null
+    }
+
+    const where = { userId }
+    const [total, transactions, expiringSoon] = await Promise.all([
+        prisma.loyaltyTransaction.count({ where }),
+        prisma.loyaltyTransaction.findMany({
+            where,
+            orderBy: { createdAt: "desc" },
+            skip: (page - 1) * limit,
+            take: limit,
+            select: {
+                id: true,
+                type: true,
+                points: true,
+                expiresAt: true,
+                createdAt: true,
+                order: { select: { id: true, orderNumber: true } },
+            },
+        }),
+        prisma.loyaltyTransaction.aggregate({
+            where: { userId, remainingPoints: { gt: 0 }, expiresAt: { lte: getExpiryDate(EXPIRING_SOON_DAYS) } },
+            _sum: { remainingPoints: true },
+        }),
+    ])
+
+    const tier = getLoyaltyTier(user.totalSpent.toNumber(), settings)
+
+    return {
+        balance: user.loyaltyPoints,
+        balanceValue: calculateRedemptionDiscount(user.loyaltyPoints, settings),
+        tier: tier.current,
+        nextTier: tier.next,
+        expiringSoon: {
+            points: expiringSoon._sum.remainingPoints ?? 0,
+            days: EXPIRING_SOON_DAYS,
+        },
+        data: transactions,
+        pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        },
+    }
+}
+
+export const loyaltyService = {
+    getLoyaltySettings,
+    expirePoints,
+    redeemPoints,
+    recordRedemption,
+    earnOrderPoints,
+    reverseOrderPoints,
+    getStatement,
+}
+
+export default loyaltyService
@@ -0,0 +1,63 @@
+import type { OrderEventType, Prisma } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { getCurrentRequest } from "../../../lib/request-context"
+
+type OrderEventClient = Prisma.TransactionClient
+
+type OrderEventEntry = {
+    orderId: string
+    type: OrderEventType
+    fromStatus: string | null
+    toStatus: string
+    note?: string
+}
+
+/**
+ * Registra uma transição na linha do tempo do pedido, com o autor da requisição atual (cliente, funcionário ou chave de API)
+ */
+export async function recordOrderEvent(entry: OrderEventEntry, client: OrderEventClient = prisma) {
+    const req = getCurrentRequest()
+
+    await client.orderEvent.create({
+        data: {
+            orderId: entry.orderId,
+            type: entry.type,
+            fromStatus: entry.fromStatus,
+            toStatus: entry.toStatus,
+            note: entry.note,
+            actorId: req?.user?.id,
+            impersonatorId: req?.impersonator?.id,
+        },
+    })
+}
+
+/**
+ * Linha do tempo do pedido em ordem cronológica. Para o próprio cliente, autor e observações internas não são expostos.
+ */
+export async function getOrderTimeline(orderId: string, staffView = true) {
+    return prisma.orderEvent.findMany({
+        where: { orderId },
+        orderBy: { createdAt: "asc" },
+        select: {
+            id: true,
+            type: true,
+            fromStatus: true,
+            toStatus: true,
+            createdAt: true,
+            ...(staffView
+                ? {
+                    note: true,
+                    actor: { select: { id: true, name: true, role: true } },
+                    impersonator: { select: { id: true, name: true } },
+                }
+                : {}),
+        },
+    })
+}
+
+export const orderEventService = {
+    recordOrderEvent,
+    getOrderTimeline,
+}
+
+export default orderEventService
@@ -1,15 +1,213 @@
 
 import { v4 as uuidv4 } from "uuid"
+import type { OrderStatus, PaymentStatus, Prisma } from "@prisma/client"
 import { prisma } from "../../../prisma/prisma"
 import { OrderFilters, OrderInput, OrderStatusUpdate } from "../../interfaces"
+import { assertVerifiedEmail } from "./email-verification"
+import { recordAudit } from "./audit"
+import { earnOrderPoints, recordRedemption, redeemPoints, reverseOrderPoints } from "./loyalty"
+import { evaluatePromoCode, redeemPromoCode, releasePromoCode } from "./promo-code"
+import { recordOrderEvent } from "./order-event"
+import { commitOrderStock, releaseOrderStock, reserveOrderStock } from "./stock-reservation"
+import { documentSearchTerm, formatDocument, normalizeDocument } from "../../../lib/document"
+import { HttpError } from "../../../lib/http-error"
+import {
+    calculateOrderPricing,
+    findPricingMismatches,
+    PricingLineInput,
+    resolveShippingTotal,
+    resolveTaxRate,
+} from "../../../lib/order-pricing"
+import {
+    canTransitionOrderStatus,
+    canTransitionPaymentStatus,
+    INITIAL_ORDER_STATUS,
+    INITIAL_PAYMENT_STATUSES,
+    ORDER_STATUS_TRANSITIONS,
+    PAYMENT_STATUS_TRANSITIONS,
+} from "../../../lib/order-status"
+
+const DEFAULT_CURRENCY = "BRL"
+
+type CatalogPrice = {
+    value: number
+    currency: string
+}
+
+type OrderTotalsInput = Pick<OrderInput, "items" | "subtotal" | "discountTotal" | "shippingTotal" | "taxTotal" | "total">
+
+type CatalogItemInput = {
+    productId: string
+    variantId?: string
+    quantity: number
+    discount?: number
+}
+
+/**
+ * Endereços de um pedido precisam pertencer ao cliente e estar ativos no catálogo de endereços
+ */
+async function assertOrderAddresses(userId: string, addressIds: string[]) {
+    const ids = [...new Set(addressIds)]
+    if (ids.length === 0) {
+        return
+    }
+    const count = await prisma.address.count({
+        where: { id: { in: ids }, userId, archivedAt: null },
+    })
+    if (count !== ids.length) {
+        throw new HttpError(400, "Endereço inválido para este cliente")
+    }
+}
+
+function assertOrderStatusTransition(from: OrderStatus, to: OrderStatus) {
+    if (!canTransitionOrderStatus(from, to)) {
+        throw new HttpError(409, "Transição de status do pedido inválida", { from, to, allowed: ORDER_STATUS_TRANSITIONS[from] })
+    }
+}
+
+function assertPaymentStatusTransition(from: PaymentStatus, to: PaymentStatus) {
+    if (!canTransitionPaymentStatus(from, to)) {
+        throw new HttpError(409, "Transição de status do pagamento inválida", { from, to, allowed: PAYMENT_STATUS_TRANSITIONS[from] })
+    }
+}
+
+/**
+ * Valor do pedido que conta no total gasto pelo cliente, base do nível de fidelidade: pedidos cancelados
+ * ou reembolsados não contam
+ */
+function countedSpend(order: { status: OrderStatus; paymentStatus: PaymentStatus; total: Prisma.Decimal }) {
+    return order.status === "CANCELED" || order.paymentStatus === "REFUNDED" ? 0 : order.total.toNumber()
+}
+
+async function adjustTotalSpent(userId: string, amount: number, tx: Prisma.TransactionClient) {
+    if (amount === 0) {
+        return
+    }
+    await tx.user.update({
+        where: { id: userId },
+        data: { totalSpent: { increment: amount } },
+    })
+}
+
+/**
+ * Preço de catálogo de cada item na moeda do pedido; itens com variação usam o preço da variação.
+ * Pedidos feitos pelo próprio cliente não aceitam produtos ocultos nem descontos por item.
+ */
+async function getCatalogLines(
+    items: CatalogItemInput[],
+    currency: string,
+    isCheckout: boolean,
+    client: Prisma.TransactionClient,
+): Promise<PricingLineInput[]> {
+    const products = await client.product.findMany({
+        where: { id: { in: [...new Set(items.map((item) => item.productId))] } },
+        select: { id: true, price: true, hidden: true, variants: { select: { id: true, price: true } } },
+    })
+
+    return items.map((item, index) => {
+        const product = products.find((candidate) => candidate.id === item.productId)
+        if (!product || (isCheckout && product.hidden)) {
+            throw new HttpError(400, "Produto indisponível", { item: index, productId: item.productId })
+        }
+
+        let price: CatalogPrice | undefined
+        if (item.variantId) {
+            const variant = product.variants.find((candidate) => candidate.id === item.variantId)
+            if (!variant) {
+                throw new HttpError(400, "Variação não encontrada para o produto", { item: index, variantId: item.variantId })
+            }
+            const variantPrice = variant.price as unknown as CatalogPrice | null
+            price = variantPrice?.currency === currency ? variantPrice : undefined
+        } else {
+            price = (product.price as unknown as Record<string, CatalogPrice>)[currency]
+        }
+        if (!price || typeof price.value !== "number") {
+            throw new HttpError(400, "Produto sem preço na moeda do pedido", { item: index, productId: item.productId, currency })
+        }
+
+        const discount = isCheckout ? 0 : item.discount ?? 0
+        if (discount > price.value) {
+            throw new HttpError(400, "Desconto do item maior que o preço unitário", { item: index })
+        }
+
+        return {
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            unitPrice: price.value,
+            discount,
+        }
+    })
+}
+
+/**
+ * Recalcula o pedido com os preços de catálogo e rejeita valores divergentes dos informados pelo cliente.
+ * Descontos automáticos (cupom e pontos) e o frete configurado na loja sempre valem; descontos manuais, por item
+ * ou no total, e frete negociado só são aceitos de funcionários com a permissão orders:pricing.
+ */
+async function priceOrder(
+    data: OrderTotalsInput,
+    currency: string,
+    lines: PricingLineInput[],
+    automaticDiscount: number,
+    manualPricing: boolean,
+    client: Prisma.TransactionClient,
+) {
+    const settings = await client.storeSettings.findFirst({
+        select: { taxSettings: true, shippingSettings: true },
+    })
+    const pricingInput = {
+        currency,
+        lines: manualPricing ? lines : lines.map((line) => ({ ...line, discount: 0 })),
+        discountTotal: manualPricing ? Math.max(data.discountTotal, automaticDiscount) : automaticDiscount,
+        taxRate: resolveTaxRate(settings?.taxSettings),
+    }
+    const shippingTotal = manualPricing
+        ? data.shippingTotal
+        : resolveShippingTotal(settings?.shippingSettings, calculateOrderPricing({ ...pricingInput, shippingTotal: 0 }))
+    const pricing = calculateOrderPricing({ ...pricingInput, shippingTotal })
+
+    if (pricing.discountTotal > pricing.subtotal) {
+        throw new HttpError(400, "Desconto maior que o subtotal do pedido", { pricing })
+    }
+
+    const mismatches = findPricingMismatches(pricing, data)
+    if (mismatches.length > 0) {
+        throw new HttpError(409, "Os valores do pedido não conferem com os preços atuais", { mismatches, pricing })
+    }
+
+    return pricing
+}
 
 const orderService = {
+    /**
+     * Simula a aplicação de um cupom ao carrinho com os preços de catálogo, sem registrar o uso
+     */
+    previewPromoCode: async (code: string, items: CatalogItemInput[], currency = DEFAULT_CURRENCY) => {
+        const lines = await getCatalogLines(items, currency, true, prisma)
+        const catalog = calculateOrderPricing({ currency, lines, discountTotal: 0, shippingTotal: 0, taxRate: 0 })
+        const { promoCode, eligibleSubtotal, discount } = await evaluatePromoCode(code, catalog.items)
+
+        return {
+            code: promoCode.code,
+            discountType: promoCode.discountType,
+            discountValue: promoCode.discountValue,
+            currency,
+            subtotal: catalog.subtotal,
+            eligibleSubtotal,
+            discount,
+        }
+    },
+
+
     getOrders: async (filters: OrderFilters) => {
-        const { search, status, startDate, endDate, sortBy, sortOrder, page, limit } = filters
+        const { search, document, userId, status, paymentMethod, paymentStatus, minTotal, maxTotal, startDate, endDate, sortBy, sortOrder, page, limit } =
+            filters
         const skip = (page - 1) * limit
         const where: any = {}
 
         if (search) {
+            const searchDocument = documentSearchTerm(search)
             where.OR = [
                 { orderNumber: { contains: search, mode: "insensitive" } },
                 {
@@ -17,14 +215,33 @@ const orderService = {
                         OR: [
                             { name: { contains: search, mode: "insensitive" } },
                             { email: { contains: search, mode: "insensitive" } },
+                            ...(searchDocument ? [{ document: searchDocument }] : []),
                         ],
                     },
                 },
             ]
         }
+        if (document) {
+            where.user = { document: normalizeDocument(document) }
+        }
+        if (userId) {
+            where.userId = userId
+        }
         if (status) {
             where.status = status
         }
+        if (paymentMethod) {
+            where.paymentMethod = paymentMethod
+        }
+        if (paymentStatus) {
+            where.paymentStatus = paymentStatus
+        }
+        if (minTotal !== undefined || maxTotal !== undefined) {
+            where.total = {
+                gte: minTotal,
+                lte: maxTotal,
+            }
+        }
         if (startDate && endDate) {
             where.createdAt = {
                 gte: new Date(startDate),
@@ -91,7 +308,7 @@ const orderService = {
     },
 
     getOrderById: async (id: string) => {
-        return prisma.order.findUnique({
+        const order = await prisma.order.findUnique({
             where: { id },
             include: {
                 user: {
@@ -125,21 +342,50 @@ const orderService = {
                 },
             },
         })
+        if (!order) {
+            return null
+        }
+        return { ...order, user: { ...order.user, document: formatDocument(order.user.document) } }
     },
 
-    createOrder: async (data: OrderInput) => {
+    /**
+     * `isCheckout` indica pedido feito pelo próprio cliente e deve ser definido pelo controller, nunca pelos dados recebidos
+     */
+    createOrder: async (data: OrderInput, isCheckout = false, manualPricing = false) => {
+        if (isCheckout) {
+            await assertVerifiedEmail(data.userId, "checkout")
+        }
+        if (data.paymentStatus && !INITIAL_PAYMENT_STATUSES.includes(data.paymentStatus)) {
+            throw new HttpError(400, "Status de pagamento inicial inválido", { allowed: INITIAL_PAYMENT_STATUSES })
+        }
+        await assertOrderAddresses(data.userId, [data.billingAddressId, data.shippingAddressId])
         const orderNumber = `ORD-${Date.now()}-${uuidv4().substring(0, 8).toUpperCase()}`
+        const currency = data.currency ?? DEFAULT_CURRENCY
         return prisma.$transaction(async (tx) => {
+            const lines = await getCatalogLines(data.items, currency, isCheckout, tx)
+            const catalog = calculateOrderPricing({ currency, lines, discountTotal: 0, shippingTotal: 0, taxRate: 0 })
+            const promo = data.promoCode ? await redeemPromoCode(data.promoCode, catalog.items, tx) : null
+            const promoDiscount = promo?.discount ?? 0
+            const pointsRedeemed = data.redeemPoints ?? 0
+            const pointsDiscount = pointsRedeemed > 0
+                ? await redeemPoints(data.userId, pointsRedeemed, catalog.subtotal - promoDiscount, tx)
+                : 0
+            const pricing = await priceOrder(data, currency, lines, promoDiscount + pointsDiscount, !isCheckout && manualPricing, tx)
             const order = await tx.order.create({
                 data: {
                     orderNumber,
                     userId: data.userId,
-                    subtotal: data.subtotal,
-                    discountTotal: data.discountTotal,
-                    shippingTotal: data.shippingTotal,
-                    taxTotal: data.taxTotal,
-                    total: data.total,
-                    status: data.status || "PENDING",
+                    currency,
+                    subtotal: pricing.subtotal,
+                    discountTotal: pricing.discountTotal,
+                    shippingTotal: pricing.shippingTotal,
+                    taxTotal: pricing.taxTotal,
+                    total: pricing.total,
+                    pointsRedeemed,
+                    pointsDiscount,
+                    promoCodeId: promo?.promoCode.id,
+                    promoDiscount,
+                    status: INITIAL_ORDER_STATUS,
                     paymentMethod: data.paymentMethod,
                     paymentStatus: data.paymentStatus || "PENDING",
                     notes: data.notes,
@@ -148,36 +394,44 @@ const orderService = {
                     createdById: data.createdById,
                 },
             })
-            for (const item of data.items) {
+            await recordAudit({ action: "CREATE", entityType: "Order", entityId: order.id, after: { ...order, items: pricing.items } }, tx)
+            await recordOrderEvent({ orderId: order.id, type: "STATUS", fromStatus: null, toStatus: order.status }, tx)
+            await recordOrderEvent({ orderId: order.id, type: "PAYMENT_STATUS", fromStatus: null, toStatus: order.paymentStatus }, tx)
+            if (pointsRedeemed > 0) {
+                await recordRedemption(order, tx)
+            }
+            for (const [index, item] of data.items.entries()) {
                 await tx.orderItem.create({
                     data: {
                         orderId: order.id,
                         productId: item.productId,
                         variantId: item.variantId,
                         quantity: item.quantity,
-                        unitPrice: item.unitPrice,
-                        discount: item.discount,
-                        total: (item.unitPrice - item.discount) * item.quantity,
+                        unitPrice: pricing.items[index].unitPrice,
+                        discount: pricing.items[index].discount,
+                        total: pricing.items[index].total,
                         notes: item.notes,
                     },
                 })
                 await tx.product.update({
                     where: { id: item.productId },
                     data: {
-                        stock: {
-                            decrement: item.quantity,
-                        },
                         soldCount: {
                             increment: item.quantity,
                         },
                     },
                 })
             }
+            // O estoque fica reservado até o pagamento; vendas registradas já pagas são baixadas na hora
+            await reserveOrderStock(order.id, data.items, tx)
+            if (order.paymentStatus === "PAID") {
+                await commitOrderStock(order.id, tx)
+            }
             await tx.user.update({
                 where: { id: data.userId },
                 data: {
                     totalSpent: {
-                        increment: data.total,
+                        increment: order.total,
                     },
                     lastPurchase: new Date(),
                 },
@@ -212,7 +466,7 @@ const orderService = {
         })
     },
 
-    updateOrder: async (id: string, data: Partial<OrderInput>) => {
+    updateOrder: async (id: string, data: Partial<OrderInput>, manualPricing = false) => {
         const existingOrder = await prisma.order.findUnique({
             where: { id },
             include: { items: true },
@@ -221,24 +475,64 @@ const orderService = {
         if (!existingOrder) {
             return null
         }
+        // Endereços já vinculados ao pedido continuam válidos mesmo depois de arquivados
+        await assertOrderAddresses(
+            existingOrder.userId,
+            [data.billingAddressId, data.shippingAddressId].filter(
+                (addressId): addressId is string =>
+                    !!addressId && addressId !== existingOrder.billingAddressId && addressId !== existingOrder.shippingAddressId,
+            ),
+        )
+        const { items, subtotal, discountTotal, shippingTotal, taxTotal, total } = data
+        const totals = [subtotal, discountTotal, shippingTotal, taxTotal, total]
+        if ((items || totals.some((value) => value !== undefined)) && !(items && totals.every((value) => value !== undefined))) {
+            throw new HttpError(400, "Itens e totais do pedido devem ser informados juntos")
+        }
+        // Depois do processamento os itens já foram separados e cobrados
+        if (items && existingOrder.status !== "PENDING") {
+            throw new HttpError(409, "Itens do pedido só podem ser alterados enquanto o pedido está pendente", {
+                status: existingOrder.status,
+            })
+        }
+        const paymentStatusChanged = !!data.paymentStatus && data.paymentStatus !== existingOrder.paymentStatus
+        if (paymentStatusChanged && existingOrder.status === "CANCELED") {
+            throw new HttpError(409, "O status de pagamento de um pedido cancelado não pode ser alterado")
+        }
+        if (data.paymentStatus && paymentStatusChanged) {
+            assertPaymentStatusTransition(existingOrder.paymentStatus, data.paymentStatus)
+        }
         return prisma.$transaction(async (tx) => {
+            // Itens e totais são sempre recalculados com os preços de catálogo, mantendo os descontos de cupom e pontos já aplicados
+            const pricing = items
+                ? await priceOrder(
+                    { items, subtotal: subtotal!, discountTotal: discountTotal!, shippingTotal: shippingTotal!, taxTotal: taxTotal!, total: total! },
+                    existingOrder.currency,
+                    await getCatalogLines(items, existingOrder.currency, false, tx),
+                    existingOrder.pointsDiscount.toNumber() + existingOrder.promoDiscount.toNumber(),
+                    manualPricing,
+                    tx,
+                )
+                : undefined
             const updatedOrder = await tx.order.update({
                 where: { id },
                 data: {
-                    subtotal: data.subtotal,
-                    discountTotal: data.discountTotal,
-                    shippingTotal: data.shippingTotal,
-                    taxTotal: data.taxTotal,
-                    total: data.total,
-                    status: data.status,
+                    subtotal: pricing?.subtotal,
+                    discountTotal: pricing?.discountTotal,
+                    shippingTotal: pricing?.shippingTotal,
+                    taxTotal: pricing?.taxTotal,
+                    total: pricing?.total,
+                    // O status do pedido só muda por updateOrderStatus, que aplica o grafo de transições
                     paymentMethod: data.paymentMethod,
                     paymentStatus: data.paymentStatus,
+                    refundedAt: paymentStatusChanged && data.paymentStatus === "REFUNDED" ? new Date() : undefined,
                     notes: data.notes,
                     billingAddressId: data.billingAddressId,
                     shippingAddressId: data.shippingAddressId,
                 },
             })
-            if (data.items && data.items.length > 0) {
+            await adjustTotalSpent(existingOrder.userId, countedSpend(updatedOrder) - countedSpend(existingOrder), tx)
+            if (items && pricing) {
+                await releaseOrderStock(id, tx)
                 await tx.orderItem.deleteMany({
                     where: { orderId: id },
                 })
@@ -246,41 +540,59 @@ const orderService = {
                     await tx.product.update({
                         where: { id: item.productId },
                         data: {
-                            stock: {
-                                increment: item.quantity,
-                            },
                             soldCount: {
                                 decrement: item.quantity,
                             },
                         },
                     })
                 }
-                for (const item of data.items) {
+                for (const [index, item] of items.entries()) {
                     await tx.orderItem.create({
                         data: {
                             orderId: id,
                             productId: item.productId,
                             variantId: item.variantId,
                             quantity: item.quantity,
-                            unitPrice: item.unitPrice,
-                            discount: item.discount,
-                            total: (item.unitPrice - item.discount) * item.quantity,
+                            unitPrice: pricing.items[index].unitPrice,
+                            discount: pricing.items[index].discount,
+                            total: pricing.items[index].total,
                             notes: item.notes,
                         },
                     })
                     await tx.product.update({
                         where: { id: item.productId },
                         data: {
-                            stock: {
-                                decrement: item.quantity,
-                            },
                             soldCount: {
                                 increment: item.quantity,
                             },
                         },
                     })
                 }
+                await reserveOrderStock(id, items, tx)
+            }
+            if (updatedOrder.paymentStatus === "PAID" && (items || paymentStatusChanged)) {
+                await commitOrderStock(id, tx)
+            }
+            if (paymentStatusChanged) {
+                await recordOrderEvent(
+                    { orderId: id, type: "PAYMENT_STATUS", fromStatus: existingOrder.paymentStatus, toStatus: updatedOrder.paymentStatus },
+                    tx,
+                )
+            }
+            if (paymentStatusChanged && data.paymentStatus === "REFUNDED") {
+                await reverseOrderPoints(id, tx)
             }
+            const { items: existingItems, ...existingOrderData } = existingOrder
+            await recordAudit(
+                {
+                    action: "UPDATE",
+                    entityType: "Order",
+                    entityId: id,
+                    before: pricing ? { ...existingOrderData, items: existingItems } : existingOrderData,
+                    after: pricing ? { ...updatedOrder, items: pricing.items } : updatedOrder,
+                },
+                tx,
+            )
             return tx.order.findUnique({
                 where: { id },
                 include: {
@@ -319,9 +631,13 @@ const orderService = {
         if (!existingOrder) {
             return null
         }
+        const statusChanged = data.status !== existingOrder.status
+        if (statusChanged) {
+            assertOrderStatusTransition(existingOrder.status, data.status)
+        }
         const updateData: any = {
             status: data.status,
-            notes: data.notes !== undefined ? data.notes : existingOrder.notes,
+            notes: data.orderNotes !== undefined ? data.orderNotes : existingOrder.notes,
         }
         if (data.trackingNumber) {
             updateData.trackingNumber = data.trackingNumber
@@ -335,91 +651,81 @@ const orderService = {
             updateData.estimatedDelivery = data.estimatedDelivery
         }
 
-        if (data.status === "DELIVERED" && existingOrder.status !== "DELIVERED") {
+        if (statusChanged && data.status === "DELIVERED") {
             updateData.completedAt = new Date()
-        } else if (data.status === "CANCELED" && (existingOrder.status as string) !== "CANCELED") {
+        } else if (statusChanged && data.status === "CANCELED") {
             updateData.canceledAt = new Date()
+        }
 
-            if ((existingOrder.status as string) !== "CANCELED") {
-                const orderItems = await prisma.orderItem.findMany({
-                    where: { orderId: id },
-                })
-                return prisma.$transaction(async (tx) => {
-                    const updatedOrder = await tx.order.update({
-                        where: { id },
-                        data: updateData,
-                    })
-
-                    for (const item of orderItems) {
-                        await tx.product.update({
-                            where: { id: item.productId },
-                            data: {
-                                stock: {
-                                    increment: item.quantity,
-                                },
-                                soldCount: {
-                                    decrement: item.quantity,
-                                },
-                            },
-                        })
-                    }
-                    return tx.order.findUnique({
-                        where: { id },
+        return prisma.$transaction(async (tx) => {
+            // A condição sobre o status atual impede que duas transições simultâneas partam do mesmo estado
+            const { count } = await tx.order.updateMany({
+                where: { id, status: existingOrder.status },
+                data: updateData,
+            })
+            if (count === 0) {
+                throw new HttpError(409, "O pedido foi alterado por outra operação; tente novamente")
+            }
+            const updatedOrder = await tx.order.findUniqueOrThrow({
+                where: { id },
+                include: {
+                    user: {
+                        select: {
+                            id: true,
+                            name: true,
+                            email: true,
+                            phone: true,
+                        },
+                    },
+                    items: {
                         include: {
-                            user: {
+                            product: {
                                 select: {
                                     id: true,
                                     name: true,
-                                    email: true,
-                                    phone: true,
-                                },
-                            },
-                            items: {
-                                include: {
-                                    product: {
-                                        select: {
-                                            id: true,
-                                            name: true,
-                                            sku: true,
-                                            images: true,
-                                        },
-                                    },
+                                    sku: true,
+                                    images: true,
                                 },
                             },
-                            billingAddress: true,
-                            shippingAddress: true,
                         },
-                    })
-                })
-            }
-        }
-        return prisma.order.update({
-            where: { id },
-            data: updateData,
-            include: {
-                user: {
-                    select: {
-                        id: true,
-                        name: true,
-                        email: true,
-                        phone: true,
                     },
+                    billingAddress: true,
+                    shippingAddress: true,
                 },
-                items: {
-                    include: {
-                        product: {
-                            select: {
-                                id: true,
-                                name: true,
-                                sku: true,
-                                images: true,
+            })
+            await recordAudit({ action: "UPDATE", entityType: "Order", entityId: id, before: existingOrder, after: { ...existingOrder, ...updateData } }, tx)
+
+            if (!statusChanged) {
+                return updatedOrder
+            }
+            await recordOrderEvent(
+                { orderId: id, type: "STATUS", fromStatus: existingOrder.status, toStatus: data.status, note: data.note },
+                tx,
+            )
+
+            if (data.status === "DELIVERED") {
+                await earnOrderPoints(updatedOrder, tx)
+            } else if (data.status === "CANCELED") {
+                await reverseOrderPoints(id, tx)
+                await adjustTotalSpent(existingOrder.userId, -countedSpend(existingOrder), tx)
+                if (existingOrder.promoCodeId) {
+                    await releasePromoCode(existingOrder.promoCodeId, tx)
+                }
+                await releaseOrderStock(id, tx)
+
+                for (const item of updatedOrder.items) {
+                    await tx.product.update({
+                        where: { id: item.productId },
+                        data: {
+                            soldCount: {
+                                decrement: item.quantity,
                             },
                         },
-                    },
-                },
-                billingAddress: true,
-                shippingAddress: true,
-            },
+                    })
+                }
+            }
+
+            return updatedOrder
         })
     },
 }
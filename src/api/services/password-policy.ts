@@ -0,0 +1,88 @@
+import bcrypt from "bcryptjs"
+import type { Prisma, User } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { resolvePasswordPolicy, validatePassword } from "../../../lib/password-policy"
+
+type PasswordOwner = Pick<User, "email" | "name"> & Partial<Pick<User, "id" | "role" | "password">>
+
+export async function getPasswordPolicy() {
+    const settings = await prisma.storeSettings.findFirst({
+        select: { passwordPolicy: true },
+    })
+    return resolvePasswordPolicy(settings?.passwordPolicy)
+}
+
+async function isReusedPassword(password: string, owner: PasswordOwner, historySize: number) {
+    if (owner.password && await bcrypt.compare(password, owner.password)) {
+        return true
+    }
+
+    const history = await prisma.passwordHistory.findMany({
+        where: { userId: owner.id },
+        orderBy: { createdAt: "desc" },
+        take: historySize,
+        select: { passwordHash: true },
+    })
+    for (const entry of history) {
+        if (await bcrypt.compare(password, entry.passwordHash)) {
+            return true
+        }
+    }
+    return false
+}
+
+/**
+ * Valida a nova senha contra a política da loja. Para funcionários, também impede a reutilização das últimas senhas.
+ */
+export async function assertPasswordAllowed(password: string, owner: PasswordOwner) {
+    const policy = await getPasswordPolicy()
+    const errors = validatePassword(password, policy, owner)
+
+    const isStaff = !!owner.role && owner.role !== "CUSTOMER"
+    if (isStaff && owner.id && policy.staffHistorySize > 0 && await isReusedPassword(password, owner, policy.staffHistorySize)) {
+        errors.push(`A senha não pode repetir nenhuma das últimas ${policy.staffHistorySize} senhas`)
+    }
+
+    if (errors.length > 0) {
+        throw new HttpError(400, "A senha não atende à política de segurança", { errors })
+    }
+}
+
+/**
+ * Guarda o hash da senha atual de funcionários e descarta o que passar do tamanho do histórico
+ */
+export async function recordPasswordHistory(
+    user: Pick<User, "id" | "role">,
+    passwordHash: string,
+    client: Prisma.TransactionClient = prisma,
+) {
+    if (user.role === "CUSTOMER") {
+        return
+    }
+
+    const { staffHistorySize } = await getPasswordPolicy()
+    await client.passwordHistory.create({
+        data: { userId: user.id, passwordHash },
+    })
+
+    const stale = await client.passwordHistory.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: "desc" },
+        skip: Math.max(staffHistorySize, 1),
+        select: { id: true },
+    })
+    if (stale.length > 0) {
+        await client.passwordHistory.deleteMany({
+            where: { id: { in: stale.map((entry) => entry.id) } },
+        })
+    }
+}
+
+export const passwordPolicyService = {
+    getPasswordPolicy,
+    assertPasswordAllowed,
+    recordPasswordHistory,
+}
+
+export default passwordPolicyService
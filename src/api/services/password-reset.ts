@@ -0,0 +1,94 @@
+import bcrypt from "bcryptjs"
+import { prisma } from "../../../prisma/prisma"
+import { generateToken, hashToken } from "../../../lib/tokens"
+import { sendMail } from "../../../lib/mailer"
+import { HttpError } from "../../../lib/http-error"
+import { assertPasswordAllowed, recordPasswordHistory } from "./password-policy"
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000
+
+/**
+ * Gera um token de redefinição e envia por email. Não revela se o email existe.
+ */
+export async function requestPasswordReset(email: string) {
+    const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+    })
+
+    if (!user || user.status !== "ACTIVE") {
+        return
+    }
+
+    const token = generateToken()
+    await prisma.$transaction([
+        prisma.passwordReset.deleteMany({
+            where: { userId: user.id, usedAt: null },
+        }),
+        prisma.passwordReset.create({
+            data: {
+                userId: user.id,
+                token: hashToken(token),
+                expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+            },
+        }),
+    ])
+
+    const resetUrl = `${process.env.FRONTEND_URL ?? ""}/reset-password?token=${token}`
+    // Envio sem aguardar: falhas e a latência do email não podem revelar se a conta existe
+    sendMail({
+        to: user.email,
+        subject: "Redefinição de senha",
+        text: `Olá ${user.name},\n\nPara redefinir sua senha, acesse: ${resetUrl}\n\nO link expira em 1 hora. Se você não solicitou a redefinição, ignore este email.`,
+    }).catch((error) => {
+        console.error("Erro ao enviar email de redefinição de senha:", error)
+    })
+}
+
+/**
+ * Redefine a senha a partir de um token válido e encerra os acessos existentes.
+ */
+export async function resetPassword(token: string, newPassword: string) {
+    const passwordReset = await prisma.passwordReset.findUnique({
+        where: { token: hashToken(token) },
+    })
+
+    if (!passwordReset || passwordReset.usedAt || passwordReset.expiresAt < new Date()) {
+        throw new HttpError(400, "Token inválido ou expirado")
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+        where: { id: passwordReset.userId },
+    })
+    await assertPasswordAllowed(newPassword, user)
+    const hashedPassword = await bcrypt.hash(newPassword, 12)
+
+    await prisma.$transaction(async (tx) => {
+        const consumed = await tx.passwordReset.updateMany({
+            where: { id: passwordReset.id, usedAt: null },
+            data: { usedAt: new Date() },
+        })
+        if (consumed.count === 0) {
+            throw new HttpError(400, "Token inválido ou expirado")
+        }
+
+        await tx.user.update({
+            where: { id: passwordReset.userId },
+            data: {
+                password: hashedPassword,
+            },
+        })
+        await recordPasswordHistory(user, hashedPassword, tx)
+
+        await tx.session.updateMany({
+            where: { userId: passwordReset.userId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        })
+    })
+}
+
+export const passwordResetService = {
+    requestPasswordReset,
+    resetPassword,
+}
+
+export default passwordResetService
@@ -1,6 +1,8 @@
 import { Prisma } from "@prisma/client"
 import { prisma } from "../../../prisma/prisma"
 import { ProductFilterParams, CreateProductDTO, UpdateProductDTO, ProductReview } from '../../interfaces/product'
+import { recordAudit } from "./audit"
+import { getAvailableStock } from "./stock-reservation"
 
 /**
  * Listar todos os produtos com filtros
@@ -148,6 +150,7 @@ export async function getProducts(filters: ProductFilterParams) {
                 description,
                 shortDescription,
                 price,
+                availableStock: getAvailableStock(product),
                 collections: product.collections.map((cp) => cp.collection.id),
             }
         })
@@ -213,6 +216,7 @@ export async function getProductById(id: string, language: string, currency: str
             description,
             shortDescription,
             price,
+            availableStock: getAvailableStock(product),
             collections: product.collections.map((cp) => cp.collection.id),
         }
     } catch (error) {
@@ -268,6 +272,7 @@ export async function getProductBySlug(slug: string, language: string, currency:
             description,
             shortDescription,
             price,
+            availableStock: getAvailableStock(product),
             collections: product.collections.map((cp) => cp.collection.id),
         }
     } catch (error) {
@@ -365,6 +370,7 @@ export async function createProduct(data: CreateProductDTO) {
                         : undefined,
             },
         })
+        await recordAudit({ action: "CREATE", entityType: "Product", entityId: product.id, after: product })
 
         return product
     } catch (error) {
@@ -513,10 +519,19 @@ export async function updateProduct(id: string, data: UpdateProductDTO) {
                 variants: true,
             },
         })
-        return {
+        const result = {
             ...updatedProduct,
             collections: updatedProduct.collections.map((cp) => cp.collection.id),
         }
+        await recordAudit({
+            action: "UPDATE",
+            entityType: "Product",
+            entityId: id,
+            before: { ...existingProduct, collections: existingProduct.collections.map((cp) => cp.collectionId) },
+            after: result,
+        })
+
+        return result
     } catch (error) {
         console.error(`Erro ao atualizar produto ${id}:`, error)
         throw error
@@ -537,6 +552,7 @@ export async function deleteProduct(id: string) {
         await prisma.product.delete({
             where: { id },
         })
+        await recordAudit({ action: "DELETE", entityType: "Product", entityId: id, before: existingProduct })
 
         return true
     } catch (error) {
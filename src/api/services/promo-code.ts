@@ -0,0 +1,296 @@
+import type { Prisma } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { roundMoney } from "../../../lib/order-pricing"
+import { recordAudit } from "./audit"
+
+type PromoCodeClient = Prisma.TransactionClient
+
+type PromoCodeDTO = {
+    code: string
+    discountType: "PERCENTAGE" | "FIXED"
+    discountValue: number
+    validFrom: string
+    validUntil: string
+    usageLimit?: number | null
+    minimumPurchase?: number | null
+    productIds?: string[]
+    collectionIds?: string[]
+}
+
+type PromoCodeFilters = {
+    search?: string
+    active?: boolean
+    page?: number
+    limit?: number
+}
+
+type PricedLine = {
+    productId: string
+    total: number
+}
+
+const promoCodeInclude = {
+    applicableProducts: {
+        select: { productId: true },
+    },
+    applicableCollections: {
+        select: { collectionId: true },
+    },
+}
+
+function normalizeCode(code: string) {
+    return code.trim().toUpperCase()
+}
+
+async function assertApplicabilityTargets(productIds: string[] = [], collectionIds: string[] = []) {
+    const [productCount, collectionCount] = await Promise.all([
+        prisma.product.count({ where: { id: { in: productIds } } }),
+        prisma.collection.count({ where: { id: { in: collectionIds } } }),
+    ])
+    if (productCount !== new Set(productIds).size) {
+        throw new HttpError(400, "Produto aplicável não encontrado")
+    }
+    if (collectionCount !== new Set(collectionIds).size) {
+        throw new HttpError(400, "Coleção aplicável não encontrada")
+    }
+}
+
+export async function getPromoCodes(filters: PromoCodeFilters) {
+    const { search, active, page = 1, limit = 20 } = filters
+    const now = new Date()
+    const where: Prisma.PromoCodeWhereInput = {}
+
+    if (search) {
+        where.code = { contains: search, mode: "insensitive" }
+    }
+    if (active !== undefined) {
+        where.AND = active
+            ? [{ validFrom: { lte: now } }, { validUntil: { gte: now } }]
+            : [{ OR: [{ validFrom: { gt: now } }, { validUntil: { lt: now } }] }]
+    }
+
+    const [total, promoCodes] = await Promise.all([
+        prisma.promoCode.count({ where }),
+        prisma.promoCode.findMany({
+            where,
+            orderBy: { createdAt: "desc" },
+            skip: (page - 1) * limit,
+            take: limit,
+            include: promoCodeInclude,
+        }),
+    ])
+
+    return {
+        data: promoCodes,
+        pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        },
+    }
+}
+
+export async function getPromoCodeById(id: string) {
+    return prisma.promoCode.findUnique({
+        where: { id },
+        include: promoCodeInclude,
+    })
+}
+
+export async function createPromoCode(data: PromoCodeDTO) {
+    const code = normalizeCode(data.code)
+    const existing = await prisma.promoCode.findUnique({ where: { code } })
+    if (existing) {
+        throw new HttpError(409, "Já existe um cupom com este código")
+    }
+    await assertApplicabilityTargets(data.productIds, data.collectionIds)
+
+    const promoCode = await prisma.promoCode.create({
+        data: {
+            code,
+            discountType: data.discountType,
+            discountValue: data.discountValue,
+            validFrom: new Date(data.validFrom),
+            validUntil: new Date(data.validUntil),
+            usageLimit: data.usageLimit,
+            minimumPurchase: data.minimumPurchase,
+            applicableProducts: {
+                create: (data.productIds ?? []).map((productId) => ({ productId })),
+            },
+            applicableCollections: {
+                create: (data.collectionIds ?? []).map((collectionId) => ({ collectionId })),
+            },
+        },
+        include: promoCodeInclude,
+    })
+    await recordAudit({ action: "CREATE", entityType: "PromoCode", entityId: promoCode.id, after: promoCode })
+
+    return promoCode
+}
+
+/**
+ * Atualiza o cupom; listas de produtos ou coleções informadas substituem as anteriores
+ */
+export async function updatePromoCode(id: string, data: Partial<PromoCodeDTO>) {
+    const promoCode = await getPromoCodeById(id)
+    if (!promoCode) {
+        return null
+    }
+
+    const code = data.code ? normalizeCode(data.code) : undefined
+    if (code && code !== promoCode.code) {
+        const existing = await prisma.promoCode.findUnique({ where: { code } })
+        if (existing) {
+            throw new HttpError(409, "Já existe um cupom com este código")
+        }
+    }
+
+    const discountType = data.discountType ?? promoCode.discountType
+    const discountValue = data.discountValue ?? promoCode.discountValue
+    if (discountType === "PERCENTAGE" && discountValue > 100) {
+        throw new HttpError(400, "Desconto percentual não pode passar de 100%")
+    }
+    const validFrom = data.validFrom ? new Date(data.validFrom) : promoCode.validFrom
+    const validUntil = data.validUntil ? new Date(data.validUntil) : promoCode.validUntil
+    if (validUntil <= validFrom) {
+        throw new HttpError(400, "Fim da validade deve ser posterior ao início")
+    }
+    if (data.usageLimit && data.usageLimit < promoCode.usageCount) {
+        throw new HttpError(400, "Limite de uso menor que a quantidade de usos já registrados", { usageCount: promoCode.usageCount })
+    }
+    await assertApplicabilityTargets(data.productIds, data.collectionIds)
+
+    const updatedPromoCode = await prisma.promoCode.update({
+        where: { id },
+        data: {
+            code,
+            discountType: data.discountType,
+            discountValue: data.discountValue,
+            validFrom: data.validFrom ? validFrom : undefined,
+            validUntil: data.validUntil ? validUntil : undefined,
+            usageLimit: data.usageLimit,
+            minimumPurchase: data.minimumPurchase,
+            applicableProducts: data.productIds
+                ? { deleteMany: {}, create: data.productIds.map((productId) => ({ productId })) }
+                : undefined,
+            applicableCollections: data.collectionIds
+                ? { deleteMany: {}, create: data.collectionIds.map((collectionId) => ({ collectionId })) }
+                : undefined,
+        },
+        include: promoCodeInclude,
+    })
+    await recordAudit({ action: "UPDATE", entityType: "PromoCode", entityId: id, before: promoCode, after: updatedPromoCode })
+
+    return updatedPromoCode
+}
+
+/**
+ * Cupons já utilizados são mantidos para o histórico dos pedidos; para encerrá-los, altere a validade
+ */
+export async function deletePromoCode(id: string) {
+    const promoCode = await getPromoCodeById(id)
+    if (!promoCode) {
+        return false
+    }
+    if (promoCode.usageCount > 0) {
+        throw new HttpError(409, "Cupom já utilizado não pode ser excluído; altere a validade para encerrá-lo")
+    }
+
+    await prisma.promoCode.delete({ where: { id } })
+    await recordAudit({ action: "DELETE", entityType: "PromoCode", entityId: id, before: promoCode })
+    return true
+}
+
+/**
+ * Verifica validade, limite de uso, valor mínimo e itens elegíveis, calculando o desconto sobre os itens elegíveis
+ */
+export async function evaluatePromoCode(code: string, lines: PricedLine[], client: PromoCodeClient = prisma) {
+    const promoCode = await client.promoCode.findUnique({
+        where: { code: normalizeCode(code) },
+        include: promoCodeInclude,
+    })
+    if (!promoCode) {
+        throw new HttpError(404, "Cupom não encontrado")
+    }
+
+    const now = new Date()
+    if (now < promoCode.validFrom || now > promoCode.validUntil) {
+        throw new HttpError(400, "Cupom fora do período de validade")
+    }
+    if (promoCode.usageLimit !== null && promoCode.usageCount >= promoCode.usageLimit) {
+        throw new HttpError(409, "Cupom esgotado")
+    }
+
+    const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.total, 0))
+    if (promoCode.minimumPurchase !== null && subtotal < promoCode.minimumPurchase) {
+        throw new HttpError(400, "Valor mínimo do pedido não atingido para este cupom", { minimumPurchase: promoCode.minimumPurchase })
+    }
+
+    const productIds = promoCode.applicableProducts.map((product) => product.productId)
+    const collectionIds = promoCode.applicableCollections.map((collection) => collection.collectionId)
+    let eligibleLines = lines
+    if (productIds.length > 0 || collectionIds.length > 0) {
+        const collectionProducts = await client.collectionProduct.findMany({
+            where: { collectionId: { in: collectionIds }, productId: { in: lines.map((line) => line.productId) } },
+            select: { productId: true },
+        })
+        const eligibleProductIds = new Set([...productIds, ...collectionProducts.map((product) => product.productId)])
+        eligibleLines = lines.filter((line) => eligibleProductIds.has(line.productId))
+    }
+
+    const eligibleSubtotal = roundMoney(eligibleLines.reduce((sum, line) => sum + line.total, 0))
+    if (eligibleSubtotal === 0) {
+        throw new HttpError(400, "Cupom não se aplica aos itens do pedido")
+    }
+
+    const discount = promoCode.discountType === "PERCENTAGE"
+        ? roundMoney((eligibleSubtotal * promoCode.discountValue) / 100)
+        : roundMoney(Math.min(promoCode.discountValue, eligibleSubtotal))
+
+    return { promoCode, eligibleSubtotal, discount }
+}
+
+/**
+ * Aplica o cupom dentro da transação do pedido. O incremento condicional garante que resgates simultâneos
+ * nunca ultrapassem o limite de uso.
+ */
+export async function redeemPromoCode(code: string, lines: PricedLine[], client: PromoCodeClient) {
+    const evaluation = await evaluatePromoCode(code, lines, client)
+    const { count } = await client.promoCode.updateMany({
+        where: {
+            id: evaluation.promoCode.id,
+            OR: [{ usageLimit: null }, { usageCount: { lt: prisma.promoCode.fields.usageLimit } }],
+        },
+        data: { usageCount: { increment: 1 } },
+    })
+    if (count === 0) {
+        throw new HttpError(409, "Cupom esgotado")
+    }
+
+    return evaluation
+}
+
+/**
+ * Devolve o uso do cupom quando o pedido é cancelado
+ */
+export async function releasePromoCode(promoCodeId: string, client: PromoCodeClient) {
+    await client.promoCode.updateMany({
+        where: { id: promoCodeId, usageCount: { gt: 0 } },
+        data: { usageCount: { decrement: 1 } },
+    })
+}
+
+export const promoCodeService = {
+    getPromoCodes,
+    getPromoCodeById,
+    createPromoCode,
+    updatePromoCode,
+    deletePromoCode,
+    evaluatePromoCode,
+    redeemPromoCode,
+    releasePromoCode,
+}
+
+export default promoCodeService
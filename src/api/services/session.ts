@@ -0,0 +1,163 @@
+import { prisma } from "../../../prisma/prisma"
+import { generateToken, hashToken } from "../../../lib/tokens"
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+const IMPERSONATION_TTL_MS = 30 * 60 * 1000
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
+type ClientInfo = {
+    ip: string | null
+    userAgent: string | null
+}
+
+/**
+ * Cria uma sessão para o dispositivo e retorna o token em texto puro (exibido uma única vez)
+ */
+export async function createSession(userId: string, client: ClientInfo) {
+    const token = generateToken()
+    const session = await prisma.session.create({
+        data: {
+            userId,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+            ip: client.ip,
+            userAgent: client.userAgent,
+        },
+    })
+
+    return { token, session }
+}
+
+/**
+ * Cria uma sessão de curta duração em que um funcionário age como o usuário. Não é renovada com o uso.
+ */
+export async function createImpersonationSession(userId: string, impersonatorId: string, client: ClientInfo) {
+    const token = generateToken()
+    const session = await prisma.session.create({
+        data: {
+            userId,
+            impersonatorId,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + IMPERSONATION_TTL_MS),
+            ip: client.ip,
+            userAgent: client.userAgent,
+        },
+    })
+
+    return { token, session }
+}
+
+/**
+ * Valida o token e renova a expiração deslizante da sessão
+ */
+export async function authenticateSession(token: string, client: ClientInfo) {
+    const session = await prisma.session.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: true, impersonator: true },
+    })
+
+    if (!session || session.revokedAt || session.expiresAt < new Date() || session.user.status !== "ACTIVE") {
+        return null
+    }
+
+    if (session.impersonator && session.impersonator.status !== "ACTIVE") {
+        return null
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+        const now = new Date()
+        await prisma.session.update({
+            where: { id: session.id },
+            data: {
+                lastSeenAt: now,
+                expiresAt: session.impersonatorId ? undefined : new Date(now.getTime() + SESSION_TTL_MS),
+                ip: client.ip,
+                userAgent: client.userAgent,
+            },
+        })
+    }
+
+    return session
+}
+
+/**
+ * Troca o token de uma sessão existente, invalidando o anterior
+ */
+export async function rotateSession(sessionId: string, client: ClientInfo) {
+    const token = generateToken()
+    const now = new Date()
+    const session = await prisma.session.update({
+        where: { id: sessionId },
+        data: {
+            tokenHash: hashToken(token),
+            lastSeenAt: now,
+            expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+            ip: client.ip,
+            userAgent: client.userAgent,
+        },
+    })
+
+    return { token, session }
+}
+
+export async function listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await prisma.session.findMany({
+        where: {
+            userId,
+            revokedAt: null,
+            impersonatorId: null,
+            expiresAt: { gt: new Date() },
+        },
+        orderBy: { lastSeenAt: "desc" },
+        select: {
+            id: true,
+            ip: true,
+            userAgent: true,
+            lastSeenAt: true,
+            expiresAt: true,
+            createdAt: true,
+        },
+    })
+
+    return sessions.map((session) => ({
+        ...session,
+        current: session.id === currentSessionId,
+    }))
+}
+
+export async function revokeSession(userId: string, sessionId: string) {
+    const result = await prisma.session.updateMany({
+        where: { id: sessionId, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    })
+
+    return result.count > 0
+}
+
+/**
+ * Revoga todas as sessões do usuário, opcionalmente preservando a sessão atual
+ */
+export async function revokeAllSessions(userId: string, exceptSessionId?: string) {
+    const result = await prisma.session.updateMany({
+        where: {
+            userId,
+            revokedAt: null,
+            id: exceptSessionId ? { not: exceptSessionId } : undefined,
+        },
+        data: { revokedAt: new Date() },
+    })
+
+    return result.count
+}
+
+export const sessionService = {
+    createSession,
+    createImpersonationSession,
+    authenticateSession,
+    rotateSession,
+    listSessions,
+    revokeSession,
+    revokeAllSessions,
+}
+
+export default sessionService
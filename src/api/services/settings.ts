@@ -1,6 +1,7 @@
 import { StoreSettings } from "@prisma/client"
 import { prisma } from "../../../prisma/prisma"
 import { UpdateStoreSettingsDto } from "../../interfaces"
+import { recordAudit } from "./audit"
 
 export async function getSettings(): Promise<StoreSettings | null> {
     try {
@@ -21,6 +22,13 @@ export async function updateSettings(data: UpdateStoreSettingsDto): Promise<Stor
             where: { id: existingSettings.id },
             data
         })
+        await recordAudit({
+            action: "UPDATE",
+            entityType: "StoreSettings",
+            entityId: existingSettings.id,
+            before: existingSettings,
+            after: newSettings,
+        })
 
         return newSettings
     } catch (error) {
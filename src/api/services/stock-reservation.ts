@@ -0,0 +1,197 @@
+import type { Prisma, StockReservationStatus } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+
+type StockReservationClient = Prisma.TransactionClient
+
+type ReservedItem = {
+    productId: string
+    quantity: number
+}
+
+const DEFAULT_RESERVATION_TTL_MINUTES = 30
+const SWEEP_INTERVAL_MS = 60 * 1000
+const SWEEP_BATCH_SIZE = 100
+
+/**
+ * Estoque disponível para venda: o físico menos o que está retido por pedidos aguardando pagamento
+ */
+export function getAvailableStock(product: { stock: number; reservedStock: number }) {
+    return Math.max(product.stock - product.reservedStock, 0)
+}
+
+/**
+ * Muda o status da reserva apenas se ela ainda estiver no status esperado, evitando que o cancelamento,
+ * o pagamento e a varredura de expiração processem a mesma reserva duas vezes
+ */
+async function transitionReservation(
+    id: string,
+    from: StockReservationStatus,
+    to: StockReservationStatus,
+    client: StockReservationClient,
+) {
+    const { count } = await client.stockReservation.updateMany({
+        where: { id, status: from },
+        data: { status: to },
+    })
+    return count > 0
+}
+
+// Lido a cada reserva para respeitar o .env carregado depois da importação dos módulos
+function getReservationTtlMinutes() {
+    return Number(process.env.STOCK_RESERVATION_TTL_MINUTES) || DEFAULT_RESERVATION_TTL_MINUTES
+}
+
+/**
+ * Retém o estoque dos itens do pedido até o pagamento ou até o fim do prazo da reserva. A retenção só acontece
+ * se houver estoque disponível, verificado no próprio UPDATE para que pedidos simultâneos não vendam além do estoque.
+ */
+export async function reserveOrderStock(orderId: string, items: ReservedItem[], client: StockReservationClient) {
+    const expiresAt = new Date(Date.now() + getReservationTtlMinutes() * 60 * 1000)
+
+    for (const item of items) {
+        const reserved = await client.$executeRaw`
+            UPDATE "Product"
+            SET "reservedStock" = "reservedStock" + ${item.quantity}
+            WHERE "id" = ${item.productId} AND "stock" - "reservedStock" >= ${item.quantity}
+        `
+        if (reserved === 0) {
+            throw new HttpError(409, "Estoque insuficiente", { productId: item.productId, quantity: item.quantity })
+        }
+        await client.stockReservation.create({
+            data: { orderId, productId: item.productId, quantity: item.quantity, expiresAt },
+        })
+    }
+}
+
+/**
+ * Baixa do estoque físico as reservas do pedido pago. Reservas expiradas já não retêm estoque, então só são
+ * baixadas se ainda houver estoque disponível, verificado no próprio UPDATE como na reserva.
+ */
+export async function commitOrderStock(orderId: string, client: StockReservationClient) {
+    const reservations = await client.stockReservation.findMany({
+        where: { orderId, status: { in: ["ACTIVE", "EXPIRED"] } },
+    })
+
+    for (const reservation of reservations) {
+        if (!(await transitionReservation(reservation.id, reservation.status, "COMMITTED", client))) {
+            continue
+        }
+        if (reservation.status === "ACTIVE") {
+            await client.product.update({
+                where: { id: reservation.productId },
+                data: {
+                    stock: { decrement: reservation.quantity },
+                    reservedStock: { decrement: reservation.quantity },
+                },
+            })
+            continue
+        }
+
+        const committed = await client.$executeRaw`
+            UPDATE "Product"
+            SET "stock" = "stock" - ${reservation.quantity}
+            WHERE "id" = ${reservation.productId} AND "stock" - "reservedStock" >= ${reservation.quantity}
+        `
+        if (committed === 0) {
+            throw new HttpError(409, "Estoque insuficiente", {
+                productId: reservation.productId,
+                quantity: reservation.quantity,
+            })
+        }
+    }
+}
+
+/**
+ * Devolve o estoque do pedido cancelado ou com itens substituídos: reservas ativas deixam de reter estoque
+ * e reservas já baixadas voltam ao estoque físico. Deve ser chamada antes de os itens do pedido serem removidos.
+ */
+export async function releaseOrderStock(orderId: string, client: StockReservationClient) {
+    const reservations = await client.stockReservation.findMany({
+        where: { orderId },
+    })
+
+    // Pedidos anteriores às reservas baixaram o estoque na criação
+    if (reservations.length === 0) {
+        const items = await client.orderItem.findMany({ where: { orderId } })
+        for (const item of items) {
+            await client.product.update({
+                where: { id: item.productId },
+                data: { stock: { increment: item.quantity } },
+            })
+        }
+        return
+    }
+
+    for (const reservation of reservations) {
+        if (reservation.status === "RELEASED") {
+            continue
+        }
+        if (!(await transitionReservation(reservation.id, reservation.status, "RELEASED", client))) {
+            continue
+        }
+        if (reservation.status === "ACTIVE") {
+            await client.product.update({
+                where: { id: reservation.productId },
+                data: { reservedStock: { decrement: reservation.quantity } },
+            })
+        } else if (reservation.status === "COMMITTED") {
+            await client.product.update({
+                where: { id: reservation.productId },
+                data: { stock: { increment: reservation.quantity } },
+            })
+        }
+    }
+}
+
+/**
+ * Libera as reservas vencidas; o pedido continua pendente e, se for pago depois, o estoque é baixado se ainda estiver disponível
+ */
+export async function expireStockReservations() {
+    const expiredReservations = await prisma.stockReservation.findMany({
+        where: { status: "ACTIVE", expiresAt: { lte: new Date() } },
+        orderBy: { expiresAt: "asc" },
+        take: SWEEP_BATCH_SIZE,
+    })
+
+    let expired = 0
+    for (const reservation of expiredReservations) {
+        await prisma.$transaction(async (tx) => {
+            if (!(await transitionReservation(reservation.id, "ACTIVE", "EXPIRED", tx))) {
+                return
+            }
+            await tx.product.update({
+                where: { id: reservation.productId },
+                data: { reservedStock: { decrement: reservation.quantity } },
+            })
+            expired += 1
+        })
+    }
+
+    return expired
+}
+
+/**
+ * Inicia a varredura periódica das reservas vencidas. Retorna a função que interrompe a varredura.
+ */
+export function startStockReservationSweeper(intervalMs = SWEEP_INTERVAL_MS) {
+    const timer = setInterval(() => {
+        expireStockReservations().catch((error) => {
+            console.error("Erro ao expirar reservas de estoque:", error)
+        })
+    }, intervalMs)
+    timer.unref()
+
+    return () => clearInterval(timer)
+}
+
+export const stockReservationService = {
+    getAvailableStock,
+    reserveOrderStock,
+    commitOrderStock,
+    releaseOrderStock,
+    expireStockReservations,
+    startStockReservationSweeper,
+}
+
+export default stockReservationService
@@ -5,6 +5,7 @@ import {
     type SupportMessageSender,
 } from "@prisma/client"
 import { prisma } from "../../../prisma/prisma"
+import { recordAudit } from "./audit"
 
 
 
@@ -358,6 +359,8 @@ async function createSupportTicket(data: SupportTicketCreateDTO): Promise<Suppor
             },
         })
 
+        await recordAudit({ action: "CREATE", entityType: "SupportTicket", entityId: ticket.id, after: ticket })
+
         const messages: SupportMessageDTO[] = []
         if (data.initialMessage) {
             const message = await prisma.supportMessage.create({
@@ -476,6 +479,7 @@ async function updateSupportTicket(id: string, data: SupportTicketUpdateDTO): Pr
                 },
             },
         })
+        await recordAudit({ action: "UPDATE", entityType: "SupportTicket", entityId: id, before: ticket, after: updatedTicket })
 
         return {
             id: updatedTicket.id,
@@ -544,6 +548,7 @@ async function addSupportTicketMessage(id: string, data: SupportMessageCreateDTO
                 },
             },
         })
+        await recordAudit({ action: "CREATE", entityType: "SupportMessage", entityId: message.id, after: message })
 
         if (data.updateStatus) {
             const updateData: any = {
@@ -641,6 +646,7 @@ async function assignSupportTicket(id: string, staffId: string): Promise<Support
                 },
             },
         })
+        await recordAudit({ action: "UPDATE", entityType: "SupportTicket", entityId: id, before: ticket, after: updatedTicket })
 
         await prisma.supportMessage.create({
             data: {
@@ -737,6 +743,7 @@ async function closeSupportTicket(id: string, resolution?: string): Promise<Supp
                 },
             },
         })
+        await recordAudit({ action: "UPDATE", entityType: "SupportTicket", entityId: id, before: ticket, after: updatedTicket })
 
         if (resolution) {
             await prisma.supportMessage.create({
@@ -0,0 +1,245 @@
+import crypto from "crypto"
+import type { User, UserRole } from "@prisma/client"
+import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { generateToken, hashToken } from "../../../lib/tokens"
+import { assertLoginAllowed, recordFailedLogin } from "./login-protection"
+import { base32Encode, buildOtpauthUri, generateSecret, verifyTotp } from "../../../lib/totp"
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+const MAX_CHALLENGE_ATTEMPTS = 5
+const RECOVERY_CODE_COUNT = 10
+
+type TwoFactorProof = {
+    code?: string
+    recoveryCode?: string
+}
+
+function normalizeRecoveryCode(code: string) {
+    return code.replace(/[\s-]/g, "").toUpperCase()
+}
+
+function generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const code = base32Encode(crypto.randomBytes(7)).slice(0, 10)
+        return `${code.slice(0, 5)}-${code.slice(5)}`
+    })
+}
+
+async function replaceRecoveryCodes(userId: string) {
+    const codes = generateRecoveryCodes()
+    await prisma.$transaction([
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        prisma.twoFactorRecoveryCode.createMany({
+            data: codes.map((code) => ({
+                userId,
+                codeHash: hashToken(normalizeRecoveryCode(code)),
+            })),
+        }),
+    ])
+    return codes
+}
+
+/**
+ * Valida um código TOTP impedindo a reutilização de um passo já consumido
+ */
+async function consumeTotp(user: User, code: string) {
+    if (!user.twoFactorSecret) {
+        return false
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code)
+    if (step === null || (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)) {
+        return false
+    }
+
+    const result = await prisma.user.updateMany({
+        where: {
+            id: user.id,
+            OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+        },
+        data: { twoFactorLastUsedStep: step },
+    })
+    return result.count > 0
+}
+
+async function consumeRecoveryCode(userId: string, recoveryCode: string) {
+    const result = await prisma.twoFactorRecoveryCode.updateMany({
+        where: {
+            userId,
+            codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+            usedAt: null,
+        },
+        data: { usedAt: new Date() },
+    })
+    return result.count > 0
+}
+
+async function verifyProof(user: User, proof: TwoFactorProof) {
+    if (proof.code) {
+        return consumeTotp(user, proof.code)
+    }
+    if (proof.recoveryCode) {
+        return consumeRecoveryCode(user.id, proof.recoveryCode)
+    }
+    return false
+}
+
+/**
+ * Indica se as configurações da loja exigem 2FA para o perfil informado
+ */
+export async function isTwoFactorRequired(role: UserRole) {
+    const settings = await prisma.storeSettings.findFirst({
+        select: { twoFactorRequiredRoles: true },
+    })
+    return !!settings?.twoFactorRequiredRoles.includes(role)
+}
+
+/**
+ * Gera um novo segredo pendente e a URI otpauth para cadastro no aplicativo autenticador
+ */
+export async function beginSetup(user: User) {
+    if (user.role === "CUSTOMER") {
+        throw new HttpError(403, "Autenticação em dois fatores disponível apenas para a equipe")
+    }
+    if (user.twoFactorEnabled) {
+        throw new HttpError(409, "Autenticação em dois fatores já está ativa")
+    }
+
+    const secret = generateSecret()
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorSecret: secret, twoFactorLastUsedStep: null },
+    })
+
+    const settings = await prisma.storeSettings.findFirst({ select: { storeName: true } })
+    return {
+        secret,
+        otpauthUri: buildOtpauthUri({
+            secret,
+            accountName: user.email,
+            issuer: settings?.storeName || "Metamorfosis",
+        }),
+    }
+}
+
+/**
+ * Ativa o 2FA após confirmar um código do segredo pendente e devolve os códigos de recuperação
+ */
+export async function enable(user: User, code: string) {
+    if (user.twoFactorEnabled) {
+        throw new HttpError(409, "Autenticação em dois fatores já está ativa")
+    }
+    if (!user.twoFactorSecret) {
+        throw new HttpError(400, "Inicie a configuração antes de ativar")
+    }
+    if (!(await consumeTotp(user, code))) {
+        throw new HttpError(400, "Código inválido")
+    }
+
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorEnabled: true },
+    })
+
+    return { recoveryCodes: await replaceRecoveryCodes(user.id) }
+}
+
+export async function disable(user: User, proof: TwoFactorProof) {
+    if (!user.twoFactorEnabled) {
+        throw new HttpError(400, "Autenticação em dois fatores não está ativa")
+    }
+    if (await isTwoFactorRequired(user.role)) {
+        throw new HttpError(403, "Autenticação em dois fatores é obrigatória para o seu perfil")
+    }
+    if (!(await verifyProof(user, proof))) {
+        throw new HttpError(400, "Código inválido")
+    }
+
+    await reset(user.id)
+}
+
+export async function regenerateRecoveryCodes(user: User, code: string) {
+    if (!user.twoFactorEnabled) {
+        throw new HttpError(400, "Autenticação em dois fatores não está ativa")
+    }
+    if (!(await consumeTotp(user, code))) {
+        throw new HttpError(400, "Código inválido")
+    }
+
+    return { recoveryCodes: await replaceRecoveryCodes(user.id) }
+}
+
+/**
+ * Remove o 2FA do usuário (usado na desativação e no reset administrativo)
+ */
+export async function reset(userId: string) {
+    await prisma.$transaction([
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        prisma.twoFactorChallenge.deleteMany({ where: { userId } }),
+        prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorLastUsedStep: null,
+            },
+        }),
+    ])
+}
+
+/**
+ * Cria o desafio do segundo passo do login
+ */
+export async function createChallenge(userId: string) {
+    const token = generateToken()
+    await prisma.twoFactorChallenge.create({
+        data: {
+            userId,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+        },
+    })
+    return token
+}
+
+/**
+ * Conclui o desafio com um código TOTP ou de recuperação e retorna o usuário autenticado. Códigos inválidos contam
+ * como falhas de login, para que novos desafios não permitam testar códigos sem limite.
+ */
+export async function completeChallenge(challengeToken: string, proof: TwoFactorProof, ip: string | null) {
+    const challenge = await prisma.twoFactorChallenge.findUnique({
+        where: { tokenHash: hashToken(challengeToken) },
+        include: { user: true },
+    })
+
+    if (!challenge || challenge.expiresAt < new Date() || challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+        throw new HttpError(401, "Desafio inválido ou expirado")
+    }
+    await assertLoginAllowed(challenge.user.email, ip, challenge.user)
+
+    if (!(await verifyProof(challenge.user, proof))) {
+        await prisma.twoFactorChallenge.update({
+            where: { id: challenge.id },
+            data: { attempts: { increment: 1 } },
+        })
+        await recordFailedLogin(challenge.user.email, ip, challenge.user)
+        throw new HttpError(401, "Código inválido")
+    }
+
+    await prisma.twoFactorChallenge.delete({ where: { id: challenge.id } })
+    return challenge.user
+}
+
+export const twoFactorService = {
+    isTwoFactorRequired,
+    beginSetup,
+    enable,
+    disable,
+    regenerateRecoveryCodes,
+    reset,
+    createChallenge,
+    completeChallenge,
+}
+
+export default twoFactorService
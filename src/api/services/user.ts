@@ -1,5 +1,15 @@
-import { PrismaClient, type UserRole, type UserStatus } from "@prisma/client"
+import { PrismaClient, type User, type UserRole, type UserStatus } from "@prisma/client"
+import bcrypt from "bcryptjs"
 import { prisma } from "../../../prisma/prisma"
+import { HttpError } from "../../../lib/http-error"
+import { revokeAllSessions, rotateSession } from "./session"
+import { clearLockout } from "./login-protection"
+import { reset as resetTwoFactor } from "./two-factor"
+import { Permission, ROLE_PERMISSIONS, resolvePermissions } from "../../../lib/permissions"
+import { recordAudit } from "./audit"
+import { requestConsent, withdrawConsent } from "./consent"
+import { assertPasswordAllowed, recordPasswordHistory } from "./password-policy"
+import { documentSearchTerm, formatDocument, normalizeDocument } from "../../../lib/document"
 
 export interface UserCreateDTO {
     name: string
@@ -10,7 +20,7 @@ export interface UserCreateDTO {
     document?: string
     birthDate?: string
     department?: string
-    permissions?: string[]
+    startDate?: string
 }
 
 export interface UserUpdateDTO {
@@ -23,10 +33,73 @@ export interface UserUpdateDTO {
     department?: string
     status?: UserStatus
     endDate?: string
-    permissions?: string[]
     avatar?: string
 }
 
+export interface PermissionsUpdateDTO {
+    grants?: Permission[]
+    revocations?: Permission[]
+}
+
+export interface ProfileUpdateDTO {
+    name?: string
+    phone?: string | null
+    document?: string | null
+    avatar?: string | null
+    birthDate?: string | null
+    marketingConsent?: boolean
+}
+
+const userSelect = {
+    id: true,
+    name: true,
+    email: true,
+    phone: true,
+    document: true,
+    birthDate: true,
+    role: true,
+    department: true,
+    status: true,
+    startDate: true,
+    endDate: true,
+    permissions: true,
+    avatar: true,
+    createdAt: true,
+    updatedAt: true,
+}
+
+const profileSelect = {
+    id: true,
+    name: true,
+    email: true,
+    phone: true,
+    document: true,
+    birthDate: true,
+    avatar: true,
+    role: true,
+    emailVerified: true,
+    marketingConsent: true,
+    createdAt: true,
+    updatedAt: true,
+}
+
+/**
+ * Garante que o CPF/CNPJ (já normalizado) não pertence a outro usuário
+ */
+export async function assertDocumentAvailable(document: string, exceptUserId?: string) {
+    const existingUser = await prisma.user.findUnique({
+        where: { document },
+        select: { id: true },
+    })
+    if (existingUser && existingUser.id !== exceptUserId) {
+        throw new HttpError(409, "CPF/CNPJ já cadastrado")
+    }
+}
+
+function withFormattedDocument<T extends { document: string | null }>(user: T): T {
+    return { ...user, document: formatDocument(user.document) }
+}
+
 export class UserService {
     private prisma: PrismaClient
 
@@ -34,11 +107,74 @@ export class UserService {
         this.prisma = prisma
     }
 
+    /**
+     * Impede escalada de privilégios: só administradores concedem ou alteram contas ADMIN e ninguém muda o próprio perfil
+     */
+    private assertCanManage(actor: User, target: { id?: string; role: UserRole }, newRole?: UserRole) {
+        if (actor.role !== "ADMIN" && target.role === "ADMIN") {
+            throw new HttpError(403, "Apenas administradores podem alterar contas de administradores")
+        }
+        if (actor.role !== "ADMIN" && newRole === "ADMIN") {
+            throw new HttpError(403, "Apenas administradores podem conceder o perfil de administrador")
+        }
+        if (target.id === actor.id && newRole && newRole !== target.role) {
+            throw new HttpError(403, "Você não pode alterar o próprio perfil")
+        }
+    }
+
+    /**
+     * Cadastra um funcionário com perfil, departamento e data de início
+     */
+    async createUser(data: UserCreateDTO, actor: User) {
+        try {
+            this.assertCanManage(actor, { role: data.role }, data.role)
+
+            const email = data.email.toLowerCase()
+            const existingUser = await this.prisma.user.findUnique({
+                where: { email },
+            })
+            if (existingUser) {
+                throw new HttpError(409, "Email já cadastrado")
+            }
+
+            const document = data.document ? normalizeDocument(data.document) : undefined
+            if (document) {
+                await assertDocumentAvailable(document)
+            }
+
+            await assertPasswordAllowed(data.password, { email, name: data.name, role: data.role })
+            const hashedPassword = await bcrypt.hash(data.password, 12)
+
+            const user = await this.prisma.user.create({
+                data: {
+                    name: data.name,
+                    email,
+                    password: hashedPassword,
+                    role: data.role,
+                    phone: data.phone,
+                    document,
+                    birthDate: data.birthDate ? new Date(data.birthDate) : undefined,
+                    department: data.department,
+                    startDate: data.startDate ? new Date(data.startDate) : new Date(),
+                },
+                select: userSelect,
+            })
+            await recordPasswordHistory(user, hashedPassword)
+            await recordAudit({ action: "CREATE", entityType: "User", entityId: user.id, after: user })
+
+            return withFormattedDocument(user)
+        } catch (error) {
+            console.error("Erro ao criar usuário:", error)
+            throw error
+        }
+    }
+
     /**
      * Obtém lista de usuários com filtros
      */
     async getUsers(filters: {
         search?: string
+        document?: string
         role?: UserRole
         status?: UserStatus
         sortBy?: string
@@ -47,18 +183,24 @@ export class UserService {
         limit?: number
     }) {
         try {
-            const { search, role, status, sortBy = "name", sortOrder = "asc", page = 1, limit = 10 } = filters
+            const { search, document, role, status, sortBy = "name", sortOrder = "asc", page = 1, limit = 10 } = filters
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const where: any = {}
 
             if (search) {
+                const searchDocument = documentSearchTerm(search)
                 where.OR = [
                     { name: { contains: search, mode: "insensitive" } },
                     { email: { contains: search, mode: "insensitive" } },
                     { phone: { contains: search, mode: "insensitive" } },
+                    ...(searchDocument ? [{ document: searchDocument }] : []),
                 ]
             }
 
+            if (document) {
+                where.document = normalizeDocument(document)
+            }
+
             if (role) {
                 where.role = role
             }
@@ -91,13 +233,20 @@ export class UserService {
                     endDate: true,
                     permissions: true,
                     avatar: true,
+                    failedLoginAttempts: true,
+                    lockedUntil: true,
+                    twoFactorEnabled: true,
                     createdAt: true,
                     updatedAt: true,
                 },
             })
 
+            const now = new Date()
             return {
-                data: users,
+                data: users.map((user) => ({
+                    ...withFormattedDocument(user),
+                    locked: !!user.lockedUntil && user.lockedUntil > now,
+                })),
                 pagination: {
                     total,
                     page,
@@ -132,12 +281,15 @@ export class UserService {
                     endDate: true,
                     permissions: true,
                     avatar: true,
+                    failedLoginAttempts: true,
+                    lockedUntil: true,
+                    twoFactorEnabled: true,
                     createdAt: true,
                     updatedAt: true,
                 },
             })
 
-            return user
+            return user && withFormattedDocument(user)
         } catch (error) {
             console.error(`Erro ao buscar usuário ${id}:`, error)
             throw error
@@ -147,7 +299,7 @@ export class UserService {
     /**
      * Atualiza um usuário
      */
-    async updateUser(id: string, data: UserUpdateDTO) {
+    async updateUser(id: string, data: UserUpdateDTO, actor: User) {
         try {
             const user = await this.prisma.user.findUnique({
                 where: { id },
@@ -156,51 +308,55 @@ export class UserService {
             if (!user) {
                 return null
             }
-            if (data.email && data.email !== user.email) {
+            this.assertCanManage(actor, user, data.role)
+            if (id === actor.id && data.status && data.status !== user.status) {
+                throw new HttpError(403, "Você não pode alterar o status da própria conta")
+            }
+
+            const email = data.email ? data.email.trim().toLowerCase() : undefined
+            const emailChanged = !!email && email !== user.email
+            // Trocar o email de um funcionário permitiria assumir a conta pela redefinição de senha
+            if (emailChanged && user.role !== "CUSTOMER" && actor.role !== "ADMIN" && actor.id !== id) {
+                throw new HttpError(403, "Apenas administradores podem alterar o email de outro funcionário")
+            }
+            if (email && emailChanged) {
                 const existingUser = await this.prisma.user.findUnique({
-                    where: { email: data.email },
+                    where: { email },
                 })
 
                 if (existingUser && existingUser.id !== id) {
-                    throw new Error("Email já cadastrado")
+                    throw new HttpError(409, "Email já cadastrado")
                 }
             }
 
+            const document = data.document ? normalizeDocument(data.document) : undefined
+            if (document && document !== user.document) {
+                await assertDocumentAvailable(document, id)
+            }
+
             const updatedUser = await this.prisma.user.update({
                 where: { id },
                 data: {
                     name: data.name,
-                    email: data.email,
+                    email,
+                    emailVerified: emailChanged ? false : undefined,
                     phone: data.phone,
-                    document: data.document,
+                    document,
                     birthDate: data.birthDate ? new Date(data.birthDate) : undefined,
                     role: data.role,
                     department: data.department,
                     status: data.status,
                     endDate: data.endDate ? new Date(data.endDate) : undefined,
-                    permissions: data.permissions,
                     avatar: data.avatar,
                 },
-                select: {
-                    id: true,
-                    name: true,
-                    email: true,
-                    phone: true,
-                    document: true,
-                    birthDate: true,
-                    role: true,
-                    department: true,
-                    status: true,
-                    startDate: true,
-                    endDate: true,
-                    permissions: true,
-                    avatar: true,
-                    createdAt: true,
-                    updatedAt: true,
-                },
+                select: userSelect,
             })
+            if ((data.status === "INACTIVE" && user.status !== "INACTIVE") || emailChanged) {
+                await revokeAllSessions(id)
+            }
+            await recordAudit({ action: "UPDATE", entityType: "User", entityId: id, before: user, after: updatedUser })
 
-            return updatedUser
+            return withFormattedDocument(updatedUser)
         } catch (error) {
             console.error(`Erro ao atualizar usuário ${id}:`, error)
             throw error
@@ -210,7 +366,7 @@ export class UserService {
     /**
      * Desativa um usuário
      */
-    async deactivateUser(id: string) {
+    async deactivateUser(id: string, actor: User) {
         try {
             const user = await this.prisma.user.findUnique({
                 where: { id },
@@ -219,14 +375,20 @@ export class UserService {
             if (!user) {
                 return false
             }
+            this.assertCanManage(actor, user)
+            if (id === actor.id) {
+                throw new HttpError(403, "Você não pode desativar a própria conta")
+            }
 
-            await this.prisma.user.update({
+            const updatedUser = await this.prisma.user.update({
                 where: { id },
                 data: {
                     status: "INACTIVE",
                     endDate: user.role !== "CUSTOMER" ? new Date() : undefined,
                 },
             })
+            await revokeAllSessions(id)
+            await recordAudit({ action: "UPDATE", entityType: "User", entityId: id, before: user, after: updatedUser })
 
             return true
         } catch (error) {
@@ -235,6 +397,130 @@ export class UserService {
         }
     }
 
+    /**
+     * Detalha as permissões de um usuário: padrão do perfil, concessões, revogações e resultado efetivo
+     */
+    async getUserPermissions(id: string) {
+        try {
+            const user = await this.prisma.user.findUnique({
+                where: { id },
+                select: { id: true, role: true, permissions: true, revokedPermissions: true },
+            })
+
+            if (!user) {
+                return null
+            }
+
+            return {
+                userId: user.id,
+                role: user.role,
+                roleDefaults: ROLE_PERMISSIONS[user.role],
+                grants: user.permissions,
+                revocations: user.revokedPermissions,
+                effective: resolvePermissions(user),
+            }
+        } catch (error) {
+            console.error(`Erro ao buscar permissões do usuário ${id}:`, error)
+            throw error
+        }
+    }
+
+    /**
+     * Substitui as concessões e revogações individuais de um usuário
+     */
+    async updateUserPermissions(id: string, data: PermissionsUpdateDTO, actor: User) {
+        try {
+            const user = await this.prisma.user.findUnique({
+                where: { id },
+            })
+
+            if (!user) {
+                return null
+            }
+            this.assertCanManage(actor, user)
+            if (id === actor.id) {
+                throw new HttpError(403, "Você não pode alterar as próprias permissões")
+            }
+
+            const actorPermissions = resolvePermissions(actor)
+            const forbiddenGrants = (data.grants ?? []).filter((permission) => !actorPermissions.includes(permission))
+            if (forbiddenGrants.length > 0) {
+                throw new HttpError(403, "Não é possível conceder permissões que você não possui", { permissions: forbiddenGrants })
+            }
+
+            const updatedUser = await this.prisma.user.update({
+                where: { id },
+                data: {
+                    permissions: data.grants,
+                    revokedPermissions: data.revocations,
+                },
+            })
+            await recordAudit({ action: "UPDATE", entityType: "User", entityId: id, before: user, after: updatedUser })
+
+            return this.getUserPermissions(id)
+        } catch (error) {
+            console.error(`Erro ao atualizar permissões do usuário ${id}:`, error)
+            throw error
+        }
+    }
+
+    /**
+     * Remove o bloqueio de login de um usuário
+     */
+    async unlockUser(id: string) {
+        try {
+            const user = await this.prisma.user.findUnique({
+                where: { id },
+            })
+
+            if (!user) {
+                return false
+            }
+
+            await clearLockout(user)
+            await recordAudit({
+                action: "UPDATE",
+                entityType: "User",
+                entityId: id,
+                before: { failedLoginAttempts: user.failedLoginAttempts, lockedUntil: user.lockedUntil },
+                after: { failedLoginAttempts: 0, lockedUntil: null },
+            })
+            return true
+        } catch (error) {
+            console.error(`Erro ao desbloquear usuário ${id}:`, error)
+            throw error
+        }
+    }
+
+    /**
+     * Remove o 2FA de um usuário que perdeu acesso ao autenticador
+     */
+    async resetTwoFactor(id: string) {
+        try {
+            const user = await this.prisma.user.findUnique({
+                where: { id },
+            })
+
+            if (!user) {
+                return false
+            }
+
+            await resetTwoFactor(id)
+            await revokeAllSessions(id)
+            await recordAudit({
+                action: "UPDATE",
+                entityType: "User",
+                entityId: id,
+                before: { twoFactorEnabled: user.twoFactorEnabled },
+                after: { twoFactorEnabled: false },
+            })
+            return true
+        } catch (error) {
+            console.error(`Erro ao redefinir 2FA do usuário ${id}:`, error)
+            throw error
+        }
+    }
+
     /**
      * Obtém dados de desempenho de um funcionário
      */
@@ -339,6 +625,100 @@ export class UserService {
             throw error
         }
     }
+
+    /**
+     * Obtém o perfil do próprio usuário
+     */
+    async getProfile(id: string) {
+        try {
+            const profile = await this.prisma.user.findUnique({
+                where: { id },
+                select: profileSelect,
+            })
+            return profile && withFormattedDocument(profile)
+        } catch (error) {
+            console.error(`Erro ao buscar perfil do usuário ${id}:`, error)
+            throw error
+        }
+    }
+
+    /**
+     * Atualiza os dados que o próprio usuário pode editar. O consentimento de marketing passa pelo double opt-in.
+     */
+    async updateProfile(id: string, data: ProfileUpdateDTO, client: { ip: string | null; userAgent: string | null }) {
+        try {
+            const document = data.document ? normalizeDocument(data.document) : data.document
+            if (document) {
+                await assertDocumentAvailable(document, id)
+            }
+
+            const user = await this.prisma.user.update({
+                where: { id },
+                data: {
+                    name: data.name,
+                    phone: data.phone,
+                    document,
+                    avatar: data.avatar,
+                    birthDate: data.birthDate === undefined ? undefined : data.birthDate && new Date(data.birthDate),
+                },
+            })
+
+            const scope = { channel: "EMAIL", purpose: "MARKETING" } as const
+            if (data.marketingConsent === true) {
+                await requestConsent(user, scope, "profile", client)
+            } else if (data.marketingConsent === false) {
+                await withdrawConsent(id, scope, "profile", client)
+            }
+
+            return this.getProfile(id)
+        } catch (error) {
+            console.error(`Erro ao atualizar perfil do usuário ${id}:`, error)
+            throw error
+        }
+    }
+
+    /**
+     * Troca a senha após validar a senha atual, encerra as demais sessões e gera um novo token para a sessão atual
+     */
+    async changePassword(
+        id: string,
+        currentPassword: string,
+        newPassword: string,
+        currentSessionId: string,
+        client: { ip: string | null, userAgent: string | null },
+    ) {
+        try {
+            const user = await this.prisma.user.findUnique({
+                where: { id },
+            })
+
+            if (!user) {
+                return null
+            }
+
+            const validPassword = await bcrypt.compare(currentPassword, user.password)
+            if (!validPassword) {
+                throw new HttpError(400, "Senha atual incorreta")
+            }
+            await assertPasswordAllowed(newPassword, user)
+
+            const hashedPassword = await bcrypt.hash(newPassword, 12)
+            await this.prisma.user.update({
+                where: { id },
+                data: {
+                    password: hashedPassword,
+                },
+            })
+            await recordPasswordHistory(user, hashedPassword)
+            await revokeAllSessions(id, currentSessionId)
+            const { token } = await rotateSession(currentSessionId, client)
+
+            return { accessToken: token }
+        } catch (error) {
+            console.error(`Erro ao alterar senha do usuário ${id}:`, error)
+            throw error
+        }
+    }
 }
 
 export default new UserService()
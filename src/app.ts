@@ -1,10 +1,12 @@
-import express, { Application } from 'express';
+import express, { Application, Request } from 'express';
 import cors from 'cors';
 import helmet from "helmet";
 import routes from './api/routes'
 import { limiter } from '../lib/rate-limit';
 import { corsOptions } from '../lib/cors-options';
 import morgan from 'morgan';
+import { errorHandlerMiddleware } from './api/middlewares/error-handler';
+import { requestContextMiddleware } from './api/middlewares/request-context';
 
 const app: Application = express();
 
@@ -12,8 +14,15 @@ app.use(helmet());
 
 app.use(cors(corsOptions));
 app.use(express.json());
-app.use(morgan('combined'))
+app.use(requestContextMiddleware);
+morgan.token('api-key', (req: Request) => req.apiKey?.prefix ?? '-')
+morgan.token('user', (req: Request) => req.user?.id ?? '-')
+morgan.token('impersonator', (req: Request) => req.impersonator?.id ?? '-')
+
+app.use(morgan(':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :res[content-length] ":referrer" ":user-agent" api-key=:api-key user=:user impersonator=:impersonator'))
 
 app.use('/api', limiter, routes)
 
+app.use(errorHandlerMiddleware)
+
 export { app }
\ No newline at end of file
@@ -12,4 +12,21 @@ export function asyncHandler(
             next(err);
         }
     };
-}
\ No newline at end of file
+}
+export function getClientInfo(req: Request) {
+    return {
+        ip: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+    };
+}
+
+export function getCookie(req: Request, name: string) {
+    const cookies = req.get('cookie')?.split(';') ?? [];
+    for (const cookie of cookies) {
+        const [key, ...value] = cookie.trim().split('=');
+        if (key === name) {
+            return decodeURIComponent(value.join('='));
+        }
+    }
+    return null;
+}
@@ -1,6 +1,8 @@
 // Interfaces compartilhadas entre frontend e backend
 
-import { PaymentStatus } from "@prisma/client"
+import { AuditAction, PaymentStatus } from "@prisma/client"
+import type { PasswordPolicy } from "../../lib/password-policy"
+import type { LoyaltySettings } from "../../lib/loyalty"
 
 // Enums
 export enum ProductStatus {
@@ -243,6 +245,11 @@ export interface CreateStoreSettingsDto {
     taxSettings?: Record<string, any>;
     shippingSettings?: Record<string, any>;
     notificationSettings?: Record<string, any>;
+    requireVerifiedEmailForCheckout?: boolean;
+    requireVerifiedEmailForReviews?: boolean;
+    twoFactorRequiredRoles?: EmployeeRole[];
+    passwordPolicy?: Partial<PasswordPolicy>;
+    loyaltySettings?: Partial<LoyaltySettings>;
 }
 export interface UpdateStoreSettingsDto extends Partial<CreateStoreSettingsDto> { }
 // Interfaces para requisições e respostas da API
@@ -358,7 +365,13 @@ export interface CustomerFilterParams {
 
 export type OrderFilters = {
     search?: string
-    status?: string
+    document?: string
+    userId?: string
+    status?: OrderStatus
+    paymentMethod?: PaymentMethod
+    paymentStatus?: PaymentStatus
+    minTotal?: number
+    maxTotal?: number
     startDate?: string
     endDate?: string
     sortBy: string
@@ -378,18 +391,20 @@ type OrderItemInput = {
 
 export type OrderInput = {
     userId: string
+    currency?: string
     subtotal: number
     discountTotal: number
     shippingTotal: number
     taxTotal: number
     total: number
-    status?: OrderStatus
     paymentMethod: PaymentMethod
     paymentStatus?: PaymentStatus
     notes?: string
     billingAddressId: string
     shippingAddressId: string
     items: OrderItemInput[]
+    promoCode?: string
+    redeemPoints?: number
     createdById?: string
 }
 
@@ -398,7 +413,8 @@ export type OrderStatusUpdate = {
     trackingNumber?: string
     shippingCarrier?: string
     estimatedDelivery?: Date
-    notes?: string
+    orderNotes?: string
+    note?: string // observação registrada na linha do tempo da transição
 }
 export interface CreateOrderDTO {
     customerId: string
@@ -523,6 +539,18 @@ export interface SupportTicketFilterParams {
     limit?: number
 }
 
+export interface AuditLogFilterParams {
+    actorId?: string
+    impersonatorId?: string
+    entityType?: string
+    entityId?: string
+    action?: AuditAction
+    startDate?: string
+    endDate?: string
+    page?: number
+    limit?: number
+}
+
 // Autenticação
 export interface LoginDTO {
     email: string
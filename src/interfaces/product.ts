@@ -149,6 +149,8 @@ export interface Product {
 
     // Inventory
     stock: number
+    reservedStock: number // retido por pedidos aguardando pagamento
+    availableStock: number // stock - reservedStock
     status: ProductStatus
     lowStockThreshold?: number
 
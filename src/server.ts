@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import http from 'http';
 import { app } from './app';
+import { startStockReservationSweeper } from './api/services/stock-reservation';
 dotenv.config()
 
 const server = http.createServer(app);
@@ -13,6 +14,8 @@ server.once('error', (err) => {
     process.exit(1);
 }).listen(PORT, () => {
     console.log(`Servidor rodando na porta ${PORT}`);
+    const stopSweeper = startStockReservationSweeper();
+    server.once('close', stopSweeper);
 });
 
 export { server }
\ No newline at end of file